@@ -0,0 +1,35 @@
+-- Backfill snapshot harga untuk order yang dibuat sebelum kolom
+-- "OrderItem".title / unit_price dan "Order".total_price ada.
+--
+-- Jalankan SEBELUM `prisma db push`, karena kolom baru bersifat NOT NULL:
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/001_order_price_snapshot.sql
+--
+-- Catatan: harga lama tidak pernah disimpan, jadi order lama diisi dengan
+-- harga buku saat backfill dijalankan — angka terbaik yang masih tersedia.
+
+BEGIN;
+
+ALTER TABLE "OrderItem" ADD COLUMN IF NOT EXISTS "title" TEXT;
+ALTER TABLE "OrderItem" ADD COLUMN IF NOT EXISTS "unit_price" INTEGER;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "total_price" INTEGER;
+
+UPDATE "OrderItem" oi
+SET "title" = b."title",
+    "unit_price" = b."price"
+FROM "Book" b
+WHERE oi."book_id" = b."id"
+  AND (oi."title" IS NULL OR oi."unit_price" IS NULL);
+
+UPDATE "Order" o
+SET "total_price" = COALESCE((
+  SELECT SUM(oi."unit_price" * oi."quantity")
+  FROM "OrderItem" oi
+  WHERE oi."order_id" = o."id"
+), 0)
+WHERE o."total_price" IS NULL;
+
+ALTER TABLE "OrderItem" ALTER COLUMN "title" SET NOT NULL;
+ALTER TABLE "OrderItem" ALTER COLUMN "unit_price" SET NOT NULL;
+ALTER TABLE "Order" ALTER COLUMN "total_price" SET NOT NULL;
+
+COMMIT;
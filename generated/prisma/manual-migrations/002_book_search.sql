@@ -0,0 +1,27 @@
+-- Full-text search buku (GET /books/search).
+--
+-- Idempotent — jalankan setelah `prisma db push` (push bisa membuang index
+-- yang tidak tercatat di schema.prisma, jadi jalankan ulang setiap selesai push):
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/002_book_search.sql
+
+-- Dipakai untuk toleransi typo (word_similarity)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Dokumen pencarian per buku. Bobot: judul A, penulis B, penerbit C, deskripsi D.
+-- Nama genre digabung saat query (beda tabel, tidak bisa ikut di-index).
+CREATE OR REPLACE FUNCTION book_search_document(
+  title TEXT, writer TEXT, publisher TEXT, description TEXT
+) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(writer, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(publisher, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'D')
+$$;
+
+CREATE INDEX IF NOT EXISTS "Book_search_document_idx"
+  ON "Book" USING GIN (book_search_document("title", "writer", "publisher", "description"));
+
+CREATE INDEX IF NOT EXISTS "Book_title_trgm_idx"
+  ON "Book" USING GIN ("title" gin_trgm_ops);
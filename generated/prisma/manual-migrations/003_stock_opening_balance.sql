@@ -0,0 +1,14 @@
+-- Saldo awal ledger stok untuk buku yang sudah ada sebelum tabel
+-- "StockMovement" dibuat, supaya GET /books/stock-reconciliation tidak
+-- melaporkan semua buku lama sebagai selisih.
+--
+-- Jalankan sekali SETELAH `prisma db push` (aman dijalankan ulang):
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/003_stock_opening_balance.sql
+
+INSERT INTO "StockMovement" ("id", "book_id", "type", "quantity", "balance_after", "reason", "created_at")
+SELECT gen_random_uuid()::text, b."id", 'CORRECTION'::"StockMovementType",
+       b."stock_quantity", b."stock_quantity", 'Opening balance', now()
+FROM "Book" b
+WHERE NOT EXISTS (
+  SELECT 1 FROM "StockMovement" m WHERE m."book_id" = b."id"
+);
@@ -0,0 +1,19 @@
+-- Backfill subtotal order untuk order yang dibuat sebelum kupon/promo ada.
+-- Order lama tidak punya diskon, jadi subtotal = total.
+--
+-- Jalankan SEBELUM `prisma db push`, karena "Order".subtotal_price NOT NULL:
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/004_order_discounts.sql
+
+BEGIN;
+
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "subtotal_price" INTEGER;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "discount_total" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "OrderItem" ADD COLUMN IF NOT EXISTS "discount" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "Order"
+SET "subtotal_price" = "total_price"
+WHERE "subtotal_price" IS NULL;
+
+ALTER TABLE "Order" ALTER COLUMN "subtotal_price" SET NOT NULL;
+
+COMMIT;
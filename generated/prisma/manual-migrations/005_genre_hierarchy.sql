@@ -0,0 +1,43 @@
+-- Genre bertingkat + tag genre many-to-many.
+--
+-- Jalankan SEBELUM `prisma db push`, karena "Genre".slug NOT NULL & unique:
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/005_genre_hierarchy.sql
+--
+-- "Book".genre_id tetap dipakai sebagai genre utama; setiap buku lama
+-- mendapat satu baris "BookGenre" untuk genre utamanya.
+
+BEGIN;
+
+ALTER TABLE "Genre" ADD COLUMN IF NOT EXISTS "slug" TEXT;
+ALTER TABLE "Genre" ADD COLUMN IF NOT EXISTS "parent_id" TEXT;
+
+-- Slug dari nama: huruf kecil, selain huruf/angka jadi "-". Kalau bentrok
+-- (mis. "Sci-Fi" dan "Sci Fi"), tambahkan potongan id supaya tetap unik.
+WITH base AS (
+  SELECT "id",
+         COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), 'genre') AS slug
+  FROM "Genre"
+  WHERE "slug" IS NULL
+), ranked AS (
+  SELECT "id", slug, ROW_NUMBER() OVER (PARTITION BY slug ORDER BY "id") AS n
+  FROM base
+)
+UPDATE "Genre" g
+SET "slug" = CASE WHEN r.n = 1 THEN r.slug ELSE r.slug || '-' || left(g."id", 8) END
+FROM ranked r
+WHERE g."id" = r."id";
+
+ALTER TABLE "Genre" ALTER COLUMN "slug" SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "BookGenre" (
+  "book_id" TEXT NOT NULL,
+  "genre_id" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "BookGenre_pkey" PRIMARY KEY ("book_id", "genre_id")
+);
+
+INSERT INTO "BookGenre" ("book_id", "genre_id")
+SELECT "id", "genre_id" FROM "Book"
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Nama genre, slug genre & judul buku cukup unik di antara baris yang belum
+-- dihapus, supaya data di trash tidak memblokir pembuatan ulang nama yang sama.
+--
+-- Idempotent — jalankan setelah `prisma db push` (push membuang index yang
+-- tidak tercatat di schema.prisma, jadi jalankan ulang setiap selesai push):
+--   psql "$DATABASE_URL" -f generated/prisma/manual-migrations/006_live_unique.sql
+
+DROP INDEX IF EXISTS "Genre_name_key";
+DROP INDEX IF EXISTS "Genre_slug_key";
+DROP INDEX IF EXISTS "Book_title_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Genre_name_live_key" ON "Genre" ("name") WHERE "deleted_at" IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "Genre_slug_live_key" ON "Genre" ("slug") WHERE "deleted_at" IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "Book_title_live_key" ON "Book" ("title") WHERE "deleted_at" IS NULL;
@@ -0,0 +1,62 @@
+import express from "express";
+import cors from "cors";
+
+// Routes
+import authRoute from "./routes/auth.route";
+import genreRoute from "./routes/genre.route";
+import booksRoute from "./routes/books.route";
+import transactionsRoute from "./routes/transactions.route";
+import cartRoute from "./routes/cart.route";
+import analyticsRoute from "./routes/analytics.route";
+import wishlistRoute from "./routes/wishlist.route";
+import couponsRoute from "./routes/coupons.route";
+import promotionsRoute from "./routes/promotions.route";
+import paymentsRoute from "./routes/payments.route";
+import auditRoute from "./routes/audit.route";
+import docsRoute from "./routes/docs.route";
+import { getHealth } from "./controllers/health.controller";
+
+// Middlewares
+import { errorMiddleware } from "./middlewares/error.middleware";
+import { loggerMiddleware } from "./middlewares/logger.middleware";
+import { requestIdMiddleware } from "./middlewares/request-id.middleware";
+
+const app = express();
+
+// 🔧 Global middlewares
+app.use(cors());
+app.use(requestIdMiddleware);
+app.use(
+  express.json({
+    limit: "10mb", // besar untuk POST /books/import
+    // Simpan body mentah: signature webhook pembayaran dihitung dari byte aslinya
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
+app.use(loggerMiddleware);
+
+// 🩺 Health check
+app.get("/health", getHealth);
+
+// 📦 Route registrations
+app.use("/auth", authRoute);
+app.use("/genres", genreRoute); // ✅ plural (lebih natural & sesuai dokumen)
+app.use("/books", booksRoute);
+app.use("/transactions", transactionsRoute);
+app.use("/cart", cartRoute);
+app.use("/analytics", analyticsRoute);
+app.use("/wishlist", wishlistRoute);
+app.use("/coupons", couponsRoute);
+app.use("/promotions", promotionsRoute);
+app.use("/payments", paymentsRoute);
+app.use("/audit", auditRoute);
+
+// 📚 OpenAPI: GET /openapi.json + Swagger UI di GET /docs
+app.use(docsRoute);
+
+// 🛠️ Global error handler
+app.use(errorMiddleware);
+
+export default app;
@@ -0,0 +1,274 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { sendCsv } from "../utils/csv";
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rentang default 30 hari terakhir; `to` eksklusif
+export const rangeSchema = z
+  .object({
+    from: z.coerce.date().default(() => new Date(Date.now() - 30 * DAY_MS)),
+    to: z.coerce.date().default(() => new Date()),
+    format: z.enum(["json", "csv"]).default("json"),
+  })
+  .refine((q) => q.from < q.to, { message: "from must be before to", path: ["from"] });
+
+export const salesQuerySchema = rangeSchema.and(
+  z.object({ interval: z.enum(["day", "week", "month"]).default("day") })
+);
+
+export const topQuerySchema = rangeSchema.and(
+  z.object({ limit: z.coerce.number().int().min(1).max(100).default(10) })
+);
+
+// Hanya order yang sudah dibayar (PAID_ORDER_STATUSES) dalam rentang waktu — PENDING belum jadi pendapatan
+const orderFilter = (range: { from: Date; to: Date }) => Prisma.sql`
+  o."status" IN ('PAID', 'SHIPPED', 'COMPLETED')
+  AND o."created_at" >= ${range.from}
+  AND o."created_at" < ${range.to}
+`;
+
+// SUM/COUNT di Postgres bisa bigint → ubah ke number supaya bisa di-JSON-kan
+const toNumbers = <T extends Record<string, unknown>>(rows: T[]) =>
+  rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, typeof value === "bigint" ? Number(value) : value])
+    )
+  );
+
+// Balas JSON atau CSV tergantung ?format=
+const reply = (
+  res: Response,
+  format: "json" | "csv",
+  name: string,
+  columns: string[],
+  rows: Record<string, unknown>[],
+  extra: Record<string, unknown> = {}
+) => {
+  if (format === "csv") return sendCsv(res, `${name}.csv`, columns, rows);
+  return res.status(200).json(response(true, "Analytics fetched successfully", { ...extra, data: rows }));
+};
+
+/**
+ * @desc Revenue, orders and units sold over time
+ * @route GET /analytics/sales?from&to&interval=day|week|month
+ */
+export const getSalesOverTime = async (req: Request, res: Response) => {
+  try {
+    const parsed = salesQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { interval, format, ...range } = parsed.data;
+    const step = `1 ${interval}`;
+
+    // generate_series supaya periode tanpa penjualan tetap muncul dengan nilai 0
+    const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+      WITH periods AS (
+        SELECT generate_series(
+          date_trunc(${interval}::text, ${range.from}::timestamp),
+          ${range.to}::timestamp - interval '1 microsecond',
+          ${step}::interval
+        ) AS period
+      ),
+      order_units AS (
+        SELECT "order_id", SUM("quantity") AS units FROM "OrderItem" GROUP BY "order_id"
+      ),
+      sales AS (
+        SELECT
+          date_trunc(${interval}::text, o."created_at") AS period,
+          COUNT(*) AS orders,
+          SUM(o."total_price") AS revenue,
+          SUM(u.units) AS units
+        FROM "Order" o
+        JOIN order_units u ON u."order_id" = o."id"
+        WHERE ${orderFilter(range)}
+        GROUP BY 1
+      )
+      SELECT
+        p.period,
+        COALESCE(s.orders, 0)::bigint AS orders,
+        COALESCE(s.units, 0)::bigint AS units,
+        COALESCE(s.revenue, 0)::bigint AS revenue
+      FROM periods p
+      LEFT JOIN sales s ON s.period = p.period
+      ORDER BY p.period
+    `;
+
+    return reply(
+      res,
+      format,
+      `sales-by-${interval}`,
+      ["period", "orders", "units", "revenue"],
+      toNumbers(rows),
+      { interval, from: range.from, to: range.to }
+    );
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Top-selling books by units
+ * @route GET /analytics/top-books?from&to&limit
+ */
+export const getTopBooks = async (req: Request, res: Response) => {
+  try {
+    const parsed = topQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { limit, format, ...range } = parsed.data;
+
+    const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+      SELECT
+        b."id" AS book_id,
+        b."title",
+        b."writer",
+        SUM(oi."quantity")::bigint AS units,
+        SUM(oi."unit_price" * oi."quantity" - oi."discount")::bigint AS revenue
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."order_id"
+      JOIN "Book" b ON b."id" = oi."book_id"
+      WHERE ${orderFilter(range)}
+      GROUP BY b."id", b."title", b."writer"
+      ORDER BY units DESC, revenue DESC
+      LIMIT ${limit}
+    `;
+
+    return reply(res, format, "top-books", ["book_id", "title", "writer", "units", "revenue"], toNumbers(rows), {
+      from: range.from,
+      to: range.to,
+    });
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Top-selling writers by units
+ * @route GET /analytics/top-writers?from&to&limit
+ */
+export const getTopWriters = async (req: Request, res: Response) => {
+  try {
+    const parsed = topQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { limit, format, ...range } = parsed.data;
+
+    const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+      SELECT
+        b."writer",
+        COUNT(DISTINCT b."id")::bigint AS titles_sold,
+        SUM(oi."quantity")::bigint AS units,
+        SUM(oi."unit_price" * oi."quantity" - oi."discount")::bigint AS revenue
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."order_id"
+      JOIN "Book" b ON b."id" = oi."book_id"
+      WHERE ${orderFilter(range)}
+      GROUP BY b."writer"
+      ORDER BY units DESC, revenue DESC
+      LIMIT ${limit}
+    `;
+
+    return reply(res, format, "top-writers", ["writer", "titles_sold", "units", "revenue"], toNumbers(rows), {
+      from: range.from,
+      to: range.to,
+    });
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Revenue and units per genre
+ * @route GET /analytics/genres?from&to
+ */
+export const getRevenueByGenre = async (req: Request, res: Response) => {
+  try {
+    const parsed = rangeSchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { format, ...range } = parsed.data;
+
+    const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+      SELECT
+        g."id" AS genre_id,
+        g."name" AS genre,
+        SUM(oi."quantity")::bigint AS units,
+        SUM(oi."unit_price" * oi."quantity" - oi."discount")::bigint AS revenue
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."order_id"
+      JOIN "Book" b ON b."id" = oi."book_id"
+      -- Per genre utama saja, supaya buku dengan banyak genre tidak terhitung ganda
+      JOIN "Genre" g ON g."id" = b."genre_id"
+      WHERE ${orderFilter(range)}
+      GROUP BY g."id", g."name"
+      ORDER BY revenue DESC
+    `;
+
+    return reply(res, format, "revenue-by-genre", ["genre_id", "genre", "units", "revenue"], toNumbers(rows), {
+      from: range.from,
+      to: range.to,
+    });
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Order summary: average order value and repeat-customer rate
+ * @route GET /analytics/summary?from&to
+ */
+export const getSalesSummary = async (req: Request, res: Response) => {
+  try {
+    const parsed = rangeSchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { format, ...range } = parsed.data;
+
+    const [summary] = await prisma.$queryRaw<Record<string, unknown>[]>`
+      WITH per_customer AS (
+        SELECT o."user_id", COUNT(*) AS orders, SUM(o."total_price") AS revenue
+        FROM "Order" o
+        WHERE ${orderFilter(range)}
+        GROUP BY o."user_id"
+      )
+      SELECT
+        COALESCE(SUM(orders), 0)::bigint AS orders,
+        COALESCE(SUM(revenue), 0)::bigint AS revenue,
+        COUNT(*)::bigint AS customers,
+        COUNT(*) FILTER (WHERE orders > 1)::bigint AS repeat_customers
+      FROM per_customer
+    `;
+
+    const [totals] = toNumbers([summary]) as Record<string, number>[];
+    const row = {
+      ...totals,
+      average_order_value: totals.orders ? Math.round(totals.revenue / totals.orders) : 0,
+      repeat_customer_rate: totals.customers
+        ? Number((totals.repeat_customers / totals.customers).toFixed(4))
+        : 0,
+    };
+
+    if (format === "csv")
+      return sendCsv(res, "sales-summary.csv", Object.keys(row), [row]);
+
+    return res
+      .status(200)
+      .json(response(true, "Analytics fetched successfully", { from: range.from, to: range.to, ...row }));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
@@ -0,0 +1,60 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { z } from "zod";
+
+export const auditQuerySchema = z
+  .object({
+    actor_id: z.string().uuid().optional(),
+    // Exact ("book.update") atau prefix dengan titik ("book." = semua aksi buku)
+    action: z.string().trim().min(1).max(100).optional(),
+    entity_type: z.string().trim().min(1).max(50).optional(),
+    entity_id: z.string().trim().min(1).optional(),
+    request_id: z.string().trim().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .merge(paginationFields)
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "from must be before to",
+    path: ["from"],
+  })
+  .superRefine(checkPagination);
+
+/**
+ * @desc Get audit log (admin)
+ * @route GET /audit?actor_id&action&entity_type&entity_id&request_id&from&to
+ */
+export const getAuditLogs = async (req: Request, res: Response) => {
+  try {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { actor_id, action, entity_type, entity_id, request_id, from, to } = parsed.data;
+
+    const where: Prisma.AuditLogWhereInput = {
+      actor_id,
+      action: action ? (action.endsWith(".") ? { startsWith: action } : action) : undefined,
+      entity_type,
+      entity_id,
+      request_id,
+      created_at: { gte: from, lte: to },
+    };
+
+    const result = await paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+      findMany: (args) => prisma.auditLog.findMany({ ...args, where: { AND: [where, args.where] } }),
+      count: () => prisma.auditLog.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Audit logs fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
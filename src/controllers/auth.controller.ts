@@ -1,26 +1,105 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { prisma } from "../utils/prisma";
 import { response } from "../utils/response";
+import {
+  consumeUserToken,
+  hashToken,
+  issueRefreshToken,
+  issueUserToken,
+  revokeAllSessions,
+  signAccessToken,
+} from "../utils/token";
+import { getMailer } from "../utils/mailer";
+import { clearLoginFailures, getLockoutSeconds, recordLoginFailure } from "../utils/login-lockout";
+import { getRecommendationsForUser } from "../utils/recommendations";
+import { recordAudit } from "../utils/audit";
+import { APP_URL, PASSWORD_RESET_URL, REQUIRE_EMAIL_VERIFICATION } from "../utils/config";
+import { UserTokenType } from "@prisma/client";
 import { z } from "zod";
 
-const JWT_SECRET = process.env.JWT_SECRET || "defaultsecret";
+const VERIFICATION_TOKEN_TTL = 24 * 60 * 60 * 1000; // 24 jam
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 jam
 
 /**
  * VALIDATION SCHEMAS
  */
-const registerSchema = z.object({
+export const registerSchema = z.object({
   email: z.string().email({ message: "Invalid email format" }),
   password: z.string().min(6, { message: "Password must be at least 6 characters" }),
   username: z.string().optional(),
 });
 
-const loginSchema = z.object({
+export const loginSchema = z.object({
   email: z.string().email({ message: "Invalid email format" }),
   password: z.string().min(1, { message: "Password is required" }),
 });
 
+export const refreshSchema = z.object({
+  refresh_token: z.string().min(1, { message: "Refresh token is required" }),
+});
+
+export const emailSchema = z.object({
+  email: z.string().email({ message: "Invalid email format" }),
+});
+
+export const tokenSchema = z.object({
+  token: z.string().min(1, { message: "Token is required" }),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, { message: "Token is required" }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+});
+
+export const updateProfileSchema = z
+  .object({
+    username: z.string().min(1, { message: "Username cannot be empty" }).optional(),
+    email: z.string().email({ message: "Invalid email format" }).optional(),
+    current_password: z.string().optional(),
+  })
+  .refine((data) => !data.email || !!data.current_password, {
+    message: "Current password is required to change email",
+    path: ["current_password"],
+  });
+
+export const changePasswordSchema = z.object({
+  current_password: z.string().min(1, { message: "Current password is required" }),
+  new_password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+export const recommendationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Kirim link verifikasi email lewat mailer
+const sendVerificationEmail = async (user: { id: string; email: string }) => {
+  const token = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION, VERIFICATION_TOKEN_TTL);
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your email address",
+    text:
+      `Please verify your email address by opening the link below:\n\n` +
+      `${APP_URL}/auth/verify-email?token=${token}\n\n` +
+      `This link expires in 24 hours.`,
+  });
+};
+
+// Alamat pengganti untuk akun terhapus, supaya email aslinya bisa didaftarkan lagi.
+// Domain .invalid dicadangkan (RFC 2606), jadi tidak pernah menerima email
+const deletedEmail = (userId: string) => `deleted+${userId}@deleted.invalid`;
+
+// Akun yang dihapus sebelum email dilepas saat delete masih memegang alamatnya — lepas sekarang
+const releaseDeletedEmail = async (email: string) => {
+  const deleted = await prisma.user.findFirst({ where: { email, deleted_at: { not: null } } });
+  if (deleted)
+    await prisma.user.update({ where: { id: deleted.id }, data: { email: deletedEmail(deleted.id) } });
+};
+
 /**
  * @desc Register new user
  * @route POST /auth/register
@@ -38,7 +117,8 @@ export const register = async (req: Request, res: Response) => {
 
     const { email, password, username } = parsed.data;
 
-    // Cek apakah email sudah terdaftar
+    // Cek apakah email sudah terdaftar (akun yang sudah dihapus tidak dihitung)
+    await releaseDeletedEmail(email);
     const existingUser = await prisma.user.findUnique({ where: { email } });
     if (existingUser) {
       return res.status(409).json(response(false, "Email already registered"));
@@ -56,11 +136,26 @@ export const register = async (req: Request, res: Response) => {
       },
     });
 
+    // Percobaan login gagal ke alamat ini sebelum terdaftar tidak boleh mengunci akun baru
+    await clearLoginFailures(email);
+
+    await sendVerificationEmail(user);
+
+    await recordAudit(req, {
+      action: "auth.register",
+      entityType: "user",
+      entityId: user.id,
+      after: user,
+      actor: user,
+    });
+
     return res.status(201).json(
       response(true, "User registered successfully", {
         id: user.id,
         email: user.email,
         username: user.username,
+        role: user.role,
+        email_verified: false,
         created_at: user.created_at,
       })
     );
@@ -86,30 +181,67 @@ export const login = async (req: Request, res: Response) => {
 
     const { email, password } = parsed.data;
 
-    // Cek user
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
-      return res.status(401).json(response(false, "Invalid email or password"));
+    // Akun sedang dikunci karena terlalu banyak percobaan gagal
+    const lockedFor = await getLockoutSeconds(email);
+    if (lockedFor > 0) {
+      res.setHeader("Retry-After", lockedFor);
+      return res
+        .status(429)
+        .json(response(false, "Too many failed login attempts, account temporarily locked", {
+          retry_after: lockedFor,
+        }));
     }
 
-    // Cek password
-    const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) {
+    // Cek user (akun yang sudah dihapus tidak bisa login)
+    const user = await prisma.user.findFirst({ where: { email, deleted_at: null } });
+
+    // Cek password — email tidak terdaftar juga dihitung gagal supaya tidak bisa dipakai menebak
+    const isMatch = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !isMatch) {
+      await recordLoginFailure(email);
+      await recordAudit(req, {
+        action: "auth.login_failed",
+        entityType: "user",
+        entityId: user?.id,
+        metadata: { email },
+        actor: null,
+      });
       return res.status(401).json(response(false, "Invalid email or password"));
     }
 
-    // Generate JWT
-    const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, {
-      expiresIn: "1d",
+    await clearLoginFailures(email);
+
+    if (REQUIRE_EMAIL_VERIFICATION && !user.email_verified_at) {
+      return res.status(403).json(response(false, "Email address has not been verified"));
+    }
+
+    // Login baru = family refresh token baru; sesi & audit-nya tersimpan bersama
+    const { token: refreshToken, record } = await prisma.$transaction(async (tx) => {
+      const issued = await issueRefreshToken(user.id, undefined, tx);
+      await recordAudit(
+        req,
+        {
+          action: "auth.login",
+          entityType: "user",
+          entityId: user.id,
+          metadata: { session_id: issued.record.family_id },
+          actor: user,
+        },
+        tx
+      );
+      return issued;
     });
+    const token = signAccessToken(user, record.family_id);
 
     return res.status(200).json(
       response(true, "Login successful", {
         token,
+        refresh_token: refreshToken,
         user: {
           id: user.id,
           email: user.email,
           username: user.username,
+          role: user.role,
         },
       })
     );
@@ -141,6 +273,8 @@ export const getMe = async (req: Request, res: Response) => {
         id: user.id,
         email: user.email,
         username: user.username,
+        role: user.role,
+        email_verified: !!user.email_verified_at,
         created_at: user.created_at,
       })
     );
@@ -149,3 +283,509 @@ export const getMe = async (req: Request, res: Response) => {
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
+
+/**
+ * @desc Rotate refresh token and issue a new access token
+ * @route POST /auth/refresh
+ */
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const parsed = refreshSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { token_hash: hashToken(parsed.data.refresh_token) },
+      include: { user: true },
+    });
+    if (!stored) {
+      return res.status(401).json(response(false, "Invalid refresh token"));
+    }
+
+    // Token yang sudah dirotasi/dicabut dipakai lagi → kemungkinan dicuri, matikan seluruh family.
+    // Rotasi normal tidak diaudit (terjadi tiap access token habis), hanya deteksi reuse ini.
+    const revokeFamily = async () => {
+      await prisma.refreshToken.updateMany({
+        where: { family_id: stored.family_id, revoked_at: null },
+        data: { revoked_at: new Date() },
+      });
+      await recordAudit(req, {
+        action: "auth.refresh_reuse",
+        entityType: "session",
+        entityId: stored.family_id,
+        actor: stored.user,
+      });
+    };
+
+    if (stored.revoked_at) {
+      await revokeFamily();
+      return res.status(401).json(response(false, "Refresh token reuse detected, session revoked"));
+    }
+
+    if (stored.expires_at < new Date()) {
+      return res.status(401).json(response(false, "Refresh token expired"));
+    }
+
+    const rotated = await prisma.$transaction(async (tx) => {
+      // Update bersyarat — dua refresh bersamaan dengan token yang sama hanya satu yang menang
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revoked_at: null },
+        data: { revoked_at: new Date() },
+      });
+      if (count === 0) return null;
+
+      const issued = await issueRefreshToken(stored.user_id, stored.family_id, tx);
+      await tx.refreshToken.update({
+        where: { id: stored.id },
+        data: { replaced_by_id: issued.record.id },
+      });
+      return issued;
+    });
+
+    if (!rotated) {
+      await revokeFamily();
+      return res.status(401).json(response(false, "Refresh token reuse detected, session revoked"));
+    }
+
+    return res.status(200).json(
+      response(true, "Token refreshed successfully", {
+        token: signAccessToken(stored.user, stored.family_id),
+        refresh_token: rotated.token,
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Logout current session
+ * @route POST /auth/logout
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sid } = (req as any).user;
+
+    await prisma.refreshToken.updateMany({
+      where: { user_id: userId, family_id: sid, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+
+    await recordAudit(req, { action: "auth.logout", entityType: "session", entityId: sid });
+
+    return res.status(200).json(response(true, "Logged out successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Logout from all sessions
+ * @route POST /auth/logout-all
+ */
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const { count } = await revokeAllSessions(userId);
+
+    await recordAudit(req, {
+      action: "auth.logout_all",
+      entityType: "user",
+      entityId: userId,
+      metadata: { revoked_sessions: count },
+    });
+
+    return res
+      .status(200)
+      .json(response(true, "Logged out from all sessions", { revoked_sessions: count }));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Verify email address (GET = link from the verification email)
+ * @route POST /auth/verify-email
+ * @route GET /auth/verify-email?token=
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const parsed = tokenSchema.safeParse(req.method === "GET" ? req.query : req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const userId = await consumeUserToken(parsed.data.token, UserTokenType.EMAIL_VERIFICATION);
+    if (!userId) {
+      return res.status(400).json(response(false, "Invalid or expired verification token"));
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { email_verified_at: new Date() },
+    });
+
+    await recordAudit(req, {
+      action: "auth.verify_email",
+      entityType: "user",
+      entityId: userId,
+      after: { email_verified_at: user.email_verified_at },
+      actor: user,
+    });
+
+    return res.status(200).json(response(true, "Email verified successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Resend email verification link
+ * @route POST /auth/verify-email/resend
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const parsed = emailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    // Jawaban selalu sama supaya endpoint ini tidak bisa dipakai menebak email terdaftar
+    const user = await prisma.user.findFirst({
+      where: { email: parsed.data.email, deleted_at: null },
+    });
+    if (user && !user.email_verified_at) {
+      await sendVerificationEmail(user);
+      await recordAudit(req, {
+        action: "auth.verification_resend",
+        entityType: "user",
+        entityId: user.id,
+        actor: user,
+      });
+    }
+
+    return res
+      .status(200)
+      .json(response(true, "If the account exists and is unverified, a verification email has been sent"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Request password reset link
+ * @route POST /auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const parsed = emailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { email: parsed.data.email, deleted_at: null },
+    });
+    if (user) {
+      const token = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET, RESET_TOKEN_TTL);
+      await getMailer().send({
+        to: user.email,
+        subject: "Reset your password",
+        text:
+          `We received a request to reset your password. Use the link below:\n\n` +
+          `${PASSWORD_RESET_URL}?token=${token}\n\n` +
+          `This link expires in 1 hour and can only be used once. ` +
+          `If you did not request this, you can ignore this email.`,
+      });
+      await recordAudit(req, {
+        action: "auth.password_reset_request",
+        entityType: "user",
+        entityId: user.id,
+        actor: user,
+      });
+    }
+
+    return res
+      .status(200)
+      .json(response(true, "If the email is registered, a password reset link has been sent"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Reset password with token
+ * @route POST /auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const { token, password } = parsed.data;
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const ok = await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(token, UserTokenType.PASSWORD_RESET, tx);
+      if (!userId) return false;
+
+      const user = await tx.user.findUniqueOrThrow({ where: { id: userId } });
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          password: hashedPassword,
+          // Link reset hanya bisa dibuka dari inbox, jadi email otomatis terverifikasi
+          email_verified_at: user.email_verified_at ?? new Date(),
+        },
+      });
+
+      // Password berubah → semua sesi lama dicabut
+      await revokeAllSessions(userId, tx);
+
+      await recordAudit(
+        req,
+        { action: "auth.password_reset", entityType: "user", entityId: userId, actor: user },
+        tx
+      );
+      return true;
+    });
+
+    if (!ok) {
+      return res.status(400).json(response(false, "Invalid or expired reset token"));
+    }
+
+    return res.status(200).json(response(true, "Password has been reset successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Update current user profile
+ * @route PATCH /auth/me
+ */
+export const updateMe = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = updateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const { username, email, current_password } = parsed.data;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json(response(false, "User not found"));
+    }
+
+    const emailChanged = !!email && email !== user.email;
+    if (emailChanged) {
+      const isMatch = await bcrypt.compare(current_password!, user.password);
+      if (!isMatch) {
+        return res.status(401).json(response(false, "Current password is incorrect"));
+      }
+
+      await releaseDeletedEmail(email);
+      const taken = await prisma.user.findUnique({ where: { email } });
+      if (taken) {
+        return res.status(409).json(response(false, "Email already registered"));
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        username,
+        // Email baru harus diverifikasi ulang
+        ...(emailChanged ? { email, email_verified_at: null } : {}),
+      },
+    });
+
+    if (emailChanged) {
+      await sendVerificationEmail(updated);
+    }
+
+    await recordAudit(req, {
+      action: "auth.profile_update",
+      entityType: "user",
+      entityId: userId,
+      before: user,
+      after: updated,
+    });
+
+    return res.status(200).json(
+      response(true, "Profile updated successfully", {
+        id: updated.id,
+        email: updated.email,
+        username: updated.username,
+        role: updated.role,
+        email_verified: !!updated.email_verified_at,
+        created_at: updated.created_at,
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Change password (all sessions are revoked)
+ * @route POST /auth/me/password
+ */
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = changePasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const { current_password, new_password } = parsed.data;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json(response(false, "User not found"));
+    }
+
+    const isMatch = await bcrypt.compare(current_password, user.password);
+    if (!isMatch) {
+      return res.status(401).json(response(false, "Current password is incorrect"));
+    }
+
+    const hashedPassword = await bcrypt.hash(new_password, 10);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({ where: { id: userId }, data: { password: hashedPassword } });
+      await revokeAllSessions(userId, tx);
+      await recordAudit(req, { action: "auth.password_change", entityType: "user", entityId: userId }, tx);
+    });
+
+    return res
+      .status(200)
+      .json(response(true, "Password changed successfully, please log in again"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Soft delete current user account (orders are kept)
+ * @route DELETE /auth/me
+ */
+export const deleteMe = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = deleteAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json(response(false, "User not found"));
+    }
+
+    const isMatch = await bcrypt.compare(parsed.data.password, user.password);
+    if (!isMatch) {
+      return res.status(401).json(response(false, "Password is incorrect"));
+    }
+
+    // Soft delete — baris user tetap ada supaya riwayat Order tidak hilang,
+    // tapi email dilepas supaya alamatnya bisa dipakai mendaftar lagi
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.user.update({
+        where: { id: userId },
+        data: { deleted_at: new Date(), email: deletedEmail(userId) },
+      });
+      await tx.userToken.updateMany({
+        where: { user_id: userId, used_at: null },
+        data: { used_at: new Date() },
+      });
+      await revokeAllSessions(userId, tx);
+      await recordAudit(
+        req,
+        {
+          action: "auth.account_delete",
+          entityType: "user",
+          entityId: userId,
+          before: { deleted_at: null, email: user.email },
+          after: { deleted_at: deleted.deleted_at, email: deleted.email },
+        },
+        tx
+      );
+    });
+
+    return res.status(200).json(response(true, "Account deleted successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Personalized book recommendations from the user's order history
+ * @route GET /auth/me/recommendations
+ */
+export const getMyRecommendations = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = recommendationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const fieldErrors = parsed.error.flatten().fieldErrors;
+      return res
+        .status(400)
+        .json(response(false, "Validation error", { errors: fieldErrors }));
+    }
+
+    const recommendations = await getRecommendationsForUser(userId, parsed.data.limit);
+
+    return res
+      .status(200)
+      .json(response(true, "Recommendations fetched successfully", recommendations));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
@@ -1,20 +1,55 @@
 import { Request, Response } from "express";
+import { OrderStatus, Prisma, StockMovementType } from "@prisma/client";
 import { prisma } from "../utils/prisma";
 import { response } from "../utils/response";
+import { syncCartsForBook } from "../utils/cart";
+import { BookQuery, bookQuerySchema, buildBookWhere } from "../utils/book-query";
+import { HttpError } from "../utils/errors";
+import { bookSearchSchema, runBookSearch, toPrefixTsQuery } from "../utils/book-search";
+import { csvToObjects, toCsvRow } from "../utils/csv";
+import { adjustStock, recordMovement } from "../utils/stock-ledger";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { queueRestockNotifications } from "../utils/restock-notifier";
+import { getRelatedBooks } from "../utils/recommendations";
+import { getGenreSubtreeIds, setBookGenres, uniqueGenreSlug } from "../utils/genres";
+import { recordAudit } from "../utils/audit";
 import { z } from "zod";
 
+// Judul bentrok dengan buku aktif lain — unique index parsial di manual-migrations/006_live_unique.sql
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
 // Skema validasi pakai Zod
-const bookSchema = z.object({
+export const bookSchema = z.object({
   title: z.string().min(1, "Title is required"),
   writer: z.string().min(1, "Writer is required"),
   publisher: z.string().min(1, "Publisher is required"),
   publication_year: z.number().int(),
   description: z.string().optional(),
-  price: z.number().positive(),
+  price: z.number().int().positive(), // rupiah, kolom Int
   stock_quantity: z.number().int().nonnegative(),
-  genre_id: z.string().uuid(),
+  reorder_threshold: z.number().int().nonnegative().optional(),
+  genre_id: z.string().uuid(), // genre utama
+  genre_ids: z.array(z.string().uuid()).max(10).optional(), // genre tambahan
 });
 
+const genreSelect = {
+  genre: { select: { id: true, name: true, slug: true } },
+  genres: {
+    where: { genre: { deleted_at: null } },
+    select: { genre: { select: { id: true, name: true, slug: true } } },
+  },
+} satisfies Prisma.BookInclude;
+
+// Id genre pertama yang tidak ada / sudah dihapus
+const findMissingGenre = async (ids: string[]) => {
+  const found = await prisma.genre.findMany({
+    where: { id: { in: ids }, deleted_at: null },
+    select: { id: true },
+  });
+  return ids.find((id) => !found.some((g) => g.id === id));
+};
+
 /**
  * @desc Create book
  * @route POST /books
@@ -25,94 +60,168 @@ export const createBook = async (req: Request, res: Response) => {
     if (!parsed.success)
       return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
 
-    const { title, writer, publisher, publication_year, description, price, stock_quantity, genre_id } =
-      parsed.data;
+    const {
+      title,
+      writer,
+      publisher,
+      publication_year,
+      description,
+      price,
+      stock_quantity,
+      reorder_threshold,
+      genre_id,
+      genre_ids,
+    } = parsed.data;
 
-    // Pastikan genre ada
-    const genre = await prisma.genre.findFirst({ where: { id: genre_id, deleted_at: null } });
-    if (!genre) return res.status(404).json(response(false, "Genre not found"));
+    // Pastikan semua genre ada
+    const missingGenre = await findMissingGenre([genre_id, ...(genre_ids || [])]);
+    if (missingGenre) return res.status(404).json(response(false, `Genre with ID ${missingGenre} not found`));
 
     // Cek duplikat title
-    const existing = await prisma.book.findUnique({ where: { title } });
+    const existing = await prisma.book.findFirst({ where: { title, deleted_at: null } });
     if (existing) return res.status(409).json(response(false, "Book title already exists"));
 
-    const book = await prisma.book.create({
-      data: { title, writer, publisher, publication_year, description, price, stock_quantity, genre_id },
+    const book = await prisma.$transaction(async (tx) => {
+      const created = await tx.book.create({
+        data: {
+          title,
+          writer,
+          publisher,
+          publication_year,
+          description,
+          price,
+          stock_quantity,
+          reorder_threshold,
+          genre_id,
+        },
+      });
+      await setBookGenres(tx, created.id, genre_id, genre_ids);
+
+      // Stok awal masuk ledger sebagai restock pertama
+      if (stock_quantity > 0)
+        await recordMovement(
+          tx,
+          {
+            bookId: created.id,
+            type: StockMovementType.RESTOCK,
+            quantity: stock_quantity,
+            reason: "Initial stock",
+            actorId: (req as any).user?.id,
+          },
+          stock_quantity
+        );
+
+      await recordAudit(
+        req,
+        {
+          action: "book.create",
+          entityType: "book",
+          entityId: created.id,
+          after: created,
+          metadata: genre_ids ? { genre_ids } : undefined,
+        },
+        tx
+      );
+
+      return tx.book.findUniqueOrThrow({ where: { id: created.id }, include: genreSelect });
     });
 
     return res.status(201).json(response(true, "Book created successfully", book));
   } catch (error) {
+    if (isUniqueViolation(error)) return res.status(409).json(response(false, "Book title already exists"));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
 
+// Query list buku dipakai bersama getBooks & getBooksByGenre
+const listBooks = (req: Request, query: BookQuery) => {
+  const where = buildBookWhere(query);
+
+  return paginate(req, query, { field: query.orderBy, order: query.order }, {
+    findMany: (args) =>
+      prisma.book.findMany({
+        ...args,
+        where: { AND: [where, args.where] },
+        include: genreSelect,
+      }),
+    count: () => prisma.book.count({ where }),
+  });
+};
+
 /**
- * @desc Get all books (with search, pagination, and sorting)
+ * @desc Get all books (with filters, pagination, and sorting)
  * @route GET /books
  */
 export const getBooks = async (req: Request, res: Response) => {
   try {
-    const { search, page = "1", limit = "10", orderBy = "title" } = req.query;
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
-
-    const where = {
-      deleted_at: null,
-      OR: search
-        ? [
-            { title: { contains: String(search), mode: "insensitive" } },
-            { writer: { contains: String(search), mode: "insensitive" } },
-          ]
-        : undefined,
-    };
+    const parsed = bookQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
 
-    const [data, total] = await Promise.all([
-      prisma.book.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy: { [orderBy as string]: "asc" },
-        include: { genre: { select: { id: true, name: true } } },
-      }),
-      prisma.book.count({ where }),
-    ]);
+    const result = await listBooks(req, parsed.data);
 
-    return res.status(200).json(
-      response(true, "Books fetched successfully", {
-        data,
-        meta: {
-          total,
-          page: pageNum,
-          limit: limitNum,
-          totalPages: Math.ceil(total / limitNum),
-        },
-      })
-    );
+    return res.status(200).json(response(true, "Books fetched successfully", result));
   } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
 
+export const subgenreQuerySchema = z.object({
+  include_subgenres: z.enum(["true", "false"]).transform((v) => v === "true").default("false"),
+});
+
 /**
- * @desc Get books by genre
- * @route GET /books/genre/:genre_id
+ * @desc Get books by genre (same filters as GET /books), optionally including sub-genres
+ * @route GET /books/genre/:genre_id?include_subgenres=true
  */
 export const getBooksByGenre = async (req: Request, res: Response) => {
   try {
     const { genre_id } = req.params;
 
+    const parsed = bookQuerySchema.safeParse({ ...req.query, genre: genre_id });
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const options = subgenreQuerySchema.safeParse(req.query);
+    if (!options.success)
+      return res.status(400).json(response(false, "Validation error", options.error.flatten()));
+
     const genre = await prisma.genre.findFirst({ where: { id: genre_id, deleted_at: null } });
     if (!genre) return res.status(404).json(response(false, "Genre not found"));
 
-    const books = await prisma.book.findMany({
-      where: { genre_id, deleted_at: null },
-      include: { genre: true },
-    });
+    const genreIds = options.data.include_subgenres ? await getGenreSubtreeIds(genre_id) : [genre_id];
+    const result = await listBooks(req, { ...parsed.data, genre: genreIds });
 
-    return res.status(200).json(response(true, "Books fetched successfully", books));
+    return res.status(200).json(response(true, "Books fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Full-text search books (ranked, with highlights and facets)
+ * @route GET /books/search
+ */
+export const searchBooks = async (req: Request, res: Response) => {
+  try {
+    const parsed = bookSearchSchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const tsQuery = toPrefixTsQuery(parsed.data.q);
+    if (!tsQuery)
+      return res.status(400).json(response(false, "Search query must contain letters or numbers"));
+
+    const result = await runBookSearch(req, parsed.data, tsQuery);
+
+    return res.status(200).json(response(true, "Books fetched successfully", result));
   } catch (error) {
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
@@ -129,7 +238,7 @@ export const getBookById = async (req: Request, res: Response) => {
 
     const book = await prisma.book.findFirst({
       where: { id, deleted_at: null },
-      include: { genre: true },
+      include: genreSelect,
     });
 
     if (!book) return res.status(404).json(response(false, "Book not found"));
@@ -148,17 +257,68 @@ export const getBookById = async (req: Request, res: Response) => {
 export const updateBook = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const parsed = bookSchema.partial().safeParse(req.body);
+
+    // Stok hanya boleh berubah lewat ledger supaya setiap perubahan tercatat
+    if (req.body && "stock_quantity" in req.body)
+      return res
+        .status(400)
+        .json(response(false, "stock_quantity cannot be updated here, use POST /books/:id/stock-adjustments"));
+
+    const parsed = bookSchema.omit({ stock_quantity: true }).partial().safeParse(req.body);
     if (!parsed.success)
       return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
 
+    const { genre_ids, ...data } = parsed.data;
+
     const existing = await prisma.book.findFirst({ where: { id, deleted_at: null } });
     if (!existing) return res.status(404).json(response(false, "Book not found"));
 
-    const updated = await prisma.book.update({ where: { id }, data: parsed.data });
+    if (data.title && data.title !== existing.title) {
+      const duplicate = await prisma.book.findFirst({ where: { title: data.title, deleted_at: null } });
+      if (duplicate) return res.status(409).json(response(false, "Book title already exists"));
+    }
+
+    const genresChanged = data.genre_id !== undefined || genre_ids !== undefined;
+    if (genresChanged) {
+      const missingGenre = await findMissingGenre([...(data.genre_id ? [data.genre_id] : []), ...(genre_ids || [])]);
+      if (missingGenre) return res.status(404).json(response(false, `Genre with ID ${missingGenre} not found`));
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const book = await tx.book.update({ where: { id }, data });
+
+      if (genresChanged) {
+        // Tanpa genre_ids, genre tambahan yang lama dipertahankan
+        const extras =
+          genre_ids ??
+          (
+            await tx.bookGenre.findMany({
+              where: { book_id: id, genre_id: { not: existing.genre_id } },
+              select: { genre_id: true },
+            })
+          ).map((l) => l.genre_id);
+        await setBookGenres(tx, id, book.genre_id, extras);
+      }
+
+      await recordAudit(
+        req,
+        {
+          action: "book.update",
+          entityType: "book",
+          entityId: id,
+          before: existing,
+          after: book,
+          metadata: genre_ids ? { genre_ids } : undefined,
+        },
+        tx
+      );
+
+      return tx.book.findUniqueOrThrow({ where: { id }, include: genreSelect });
+    });
 
     return res.status(200).json(response(true, "Book updated successfully", updated));
   } catch (error) {
+    if (isUniqueViolation(error)) return res.status(409).json(response(false, "Book title already exists"));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
@@ -175,7 +335,15 @@ export const deleteBook = async (req: Request, res: Response) => {
     const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
     if (!book) return res.status(404).json(response(false, "Book not found"));
 
-    await prisma.book.update({ where: { id }, data: { deleted_at: new Date() } });
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.book.update({ where: { id }, data: { deleted_at: new Date() } });
+      await syncCartsForBook(id, null, tx);
+      await recordAudit(
+        req,
+        { action: "book.delete", entityType: "book", entityId: id, before: book, after: deleted },
+        tx
+      );
+    });
 
     return res.status(200).json(response(true, "Book deleted successfully"));
   } catch (error) {
@@ -183,3 +351,723 @@ export const deleteBook = async (req: Request, res: Response) => {
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
+
+export const trashQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+/**
+ * @desc List soft-deleted books (admin)
+ * @route GET /books/trash
+ */
+export const getTrashedBooks = async (req: Request, res: Response) => {
+  try {
+    const parsed = trashQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { search } = parsed.data;
+
+    const where: Prisma.BookWhereInput = {
+      deleted_at: { not: null },
+      title: search ? { contains: search, mode: Prisma.QueryMode.insensitive } : undefined,
+    };
+
+    const result = await paginate(req, parsed.data, { field: "deleted_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.book.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: { genre: { select: { id: true, name: true, deleted_at: true } } },
+        }),
+      count: () => prisma.book.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Deleted books fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Restore soft-deleted book
+ * @route POST /books/:id/restore
+ */
+export const restoreBook = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({
+      where: { id, deleted_at: { not: null } },
+      include: { genre: true },
+    });
+    if (!book) return res.status(404).json(response(false, "Deleted book not found"));
+
+    if (book.genre.deleted_at)
+      return res
+        .status(409)
+        .json(response(false, "Genre of this book is deleted, restore the genre or reassign it first"));
+
+    const duplicate = await prisma.book.findFirst({ where: { title: book.title, deleted_at: null } });
+    if (duplicate) return res.status(409).json(response(false, "Book title already exists"));
+
+    const restored = await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id },
+        data: { deleted_at: null },
+        include: genreSelect,
+      });
+      await recordAudit(
+        req,
+        {
+          action: "book.restore",
+          entityType: "book",
+          entityId: id,
+          before: { deleted_at: book.deleted_at },
+          after: { deleted_at: null },
+        },
+        tx
+      );
+      return updated;
+    });
+
+    if (restored.stock_quantity > 0) queueRestockNotifications([id]);
+
+    return res.status(200).json(response(true, "Book restored successfully", restored));
+  } catch (error) {
+    if (isUniqueViolation(error)) return res.status(409).json(response(false, "Book title already exists"));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+const MAX_IMPORT_ROWS = 5000;
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_COLUMNS = [
+  "title",
+  "writer",
+  "publisher",
+  "publication_year",
+  "description",
+  "price",
+  "stock_quantity",
+  "reorder_threshold",
+  "genre",
+] as const;
+
+export const importOptionsSchema = z.object({
+  dry_run: z.enum(["true", "false"]).transform((v) => v === "true").default("false"),
+  create_genres: z.enum(["true", "false"]).transform((v) => v === "true").default("false"),
+});
+
+// Baris import pakai nama genre, bukan genre_id
+export const importRowSchema = bookSchema.omit({ genre_id: true, genre_ids: true }).extend({
+  genre: z.string().trim().min(1, "Genre is required"),
+});
+
+// Nilai dari CSV selalu string — ubah kolom angka jadi number, string kosong jadi undefined
+const normalizeImportRow = (row: Record<string, unknown>) => {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value !== "string") {
+      normalized[key] = value;
+      continue;
+    }
+    const trimmed = value.trim();
+    if (trimmed === "") continue;
+    normalized[key] = ["publication_year", "price", "stock_quantity", "reorder_threshold"].includes(key)
+      ? Number(trimmed)
+      : trimmed;
+  }
+  return normalized;
+};
+
+/**
+ * @desc Bulk import books from CSV or JSON (upsert by title)
+ * @route POST /books/import?dry_run=true&create_genres=true
+ */
+export const importBooks = async (req: Request, res: Response) => {
+  try {
+    const options = importOptionsSchema.safeParse(req.query);
+    if (!options.success)
+      return res.status(400).json(response(false, "Validation error", options.error.flatten()));
+
+    const { dry_run, create_genres } = options.data;
+
+    // CSV dikirim sebagai text/csv, JSON sebagai array atau { books: [...] }
+    let rows: Record<string, unknown>[];
+    if (typeof req.body === "string") {
+      rows = csvToObjects(req.body);
+    } else if (Array.isArray(req.body)) {
+      rows = req.body;
+    } else if (Array.isArray(req.body?.books)) {
+      rows = req.body.books;
+    } else {
+      return res
+        .status(400)
+        .json(response(false, "Body must be CSV (text/csv) or a JSON array of books"));
+    }
+
+    if (rows.length === 0) return res.status(400).json(response(false, "No rows to import"));
+    if (rows.length > MAX_IMPORT_ROWS)
+      return res.status(400).json(response(false, `Import is limited to ${MAX_IMPORT_ROWS} rows per request`));
+
+    const genres = await prisma.genre.findMany({ where: { deleted_at: null } });
+    const genreIds = new Map(genres.map((g) => [g.name.toLowerCase(), g.id]));
+    const missingGenres = new Map<string, string>(); // lowercase → nama asli
+
+    // Buku di trash tidak dihitung: judul yang sama dibuat sebagai buku baru
+    const existingBooks = await prisma.book.findMany({
+      where: {
+        title: { in: rows.map((r) => String(r?.title ?? "").trim()).filter(Boolean) },
+        deleted_at: null,
+      },
+    });
+    const existingByTitle = new Map(existingBooks.map((b) => [b.title, b]));
+
+    const seenTitles = new Set<string>();
+    const report: { row: number; title: unknown; action: string; errors?: unknown }[] = [];
+    const valid: {
+      data: z.infer<typeof importRowSchema>;
+      action: "create" | "update";
+      row: (typeof report)[number];
+    }[] = [];
+
+    for (const [index, raw] of rows.entries()) {
+      const rowNumber = index + 1;
+      const parsed = importRowSchema.safeParse(normalizeImportRow(raw || {}));
+      if (!parsed.success) {
+        report.push({
+          row: rowNumber,
+          title: raw?.title ?? null,
+          action: "error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+        continue;
+      }
+
+      const data = parsed.data;
+      const errors: string[] = [];
+
+      if (seenTitles.has(data.title)) errors.push("Duplicate title in import file");
+      seenTitles.add(data.title);
+
+      const genreKey = data.genre.toLowerCase();
+      if (!genreIds.has(genreKey)) {
+        if (create_genres) missingGenres.set(genreKey, data.genre);
+        else errors.push(`Genre "${data.genre}" not found`);
+      }
+
+      if (errors.length > 0) {
+        report.push({ row: rowNumber, title: data.title, action: "error", errors: { row: errors } });
+        continue;
+      }
+
+      // Perkiraan untuk dry run; dipastikan ulang di dalam transaksi
+      const action = existingByTitle.has(data.title) ? "update" : "create";
+      const row = { row: rowNumber, title: data.title, action };
+      valid.push({ data, action, row });
+      report.push(row);
+    }
+
+    const invalid = rows.length - valid.length;
+    const summary = {
+      total: rows.length,
+      valid: valid.length,
+      invalid,
+      created: valid.filter((v) => v.action === "create").length,
+      updated: valid.filter((v) => v.action === "update").length,
+      genres_created: [...missingGenres.values()],
+    };
+
+    // Ada baris gagal → tidak ada yang ditulis; perbaiki file lalu kirim ulang
+    if (invalid > 0)
+      return res
+        .status(422)
+        .json(response(false, "Import has invalid rows, nothing was imported", { dry_run, summary, rows: report }));
+
+    if (dry_run)
+      return res.status(200).json(response(true, "Dry run completed", { dry_run, summary, rows: report }));
+
+    const restockedIds: string[] = [];
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const name of missingGenres.values()) {
+          const genre = await tx.genre.create({ data: { name, slug: await uniqueGenreSlug(name, tx) } });
+          genreIds.set(name.toLowerCase(), genre.id);
+        }
+
+        for (const entry of valid) {
+          const { genre, ...fields } = entry.data;
+          const book = { ...fields, genre_id: genreIds.get(genre.toLowerCase())! };
+
+          // Baca ulang & kunci baris di dalam transaksi — checkout atau adjustment sejak
+          // validasi di atas harus ikut terhitung di selisih ledger dan snapshot audit
+          await tx.$queryRaw`
+            SELECT "id" FROM "Book" WHERE "title" = ${fields.title} AND "deleted_at" IS NULL FOR UPDATE
+          `;
+          const previous = await tx.book.findFirst({ where: { title: fields.title, deleted_at: null } });
+          entry.action = previous ? "update" : "create";
+          entry.row.action = entry.action;
+
+          const saved = previous
+            ? await tx.book.update({ where: { id: previous.id }, data: book })
+            : await tx.book.create({ data: book });
+
+          await recordAudit(
+            req,
+            {
+              action: previous ? "book.update" : "book.create",
+              entityType: "book",
+              entityId: saved.id,
+              before: previous,
+              after: saved,
+              metadata: { source: "import" },
+            },
+            tx
+          );
+
+          // Import hanya membawa genre utama; genre tambahan yang sudah ada dibiarkan
+          if (previous && previous.genre_id !== saved.genre_id)
+            await tx.bookGenre.deleteMany({ where: { book_id: saved.id, genre_id: previous.genre_id } });
+          await tx.bookGenre.createMany({
+            data: [{ book_id: saved.id, genre_id: saved.genre_id }],
+            skipDuplicates: true,
+          });
+
+          // Selisih stok dari import tetap masuk ledger
+          const delta = fields.stock_quantity - (previous?.stock_quantity ?? 0);
+          if (delta !== 0) {
+            await recordMovement(
+              tx,
+              {
+                bookId: saved.id,
+                type: previous ? StockMovementType.CORRECTION : StockMovementType.RESTOCK,
+                quantity: delta,
+                reason: "Bulk import",
+                actorId: (req as any).user?.id,
+              },
+              saved.stock_quantity
+            );
+          }
+          if (delta < 0) await syncCartsForBook(saved.id, saved.stock_quantity, tx);
+          if (delta > 0) restockedIds.push(saved.id);
+        }
+      },
+      { timeout: 120000 }
+    );
+
+    queueRestockNotifications(restockedIds);
+
+    summary.created = valid.filter((v) => v.action === "create").length;
+    summary.updated = valid.filter((v) => v.action === "update").length;
+
+    return res.status(200).json(response(true, "Books imported successfully", { dry_run, summary, rows: report }));
+  } catch (error) {
+    // Judul atau genre yang sama dibuat request lain di tengah import (unique index di 006_live_unique.sql)
+    if (isUniqueViolation(error))
+      return res
+        .status(409)
+        .json(response(false, "A book or genre in this import was created concurrently, please retry"));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Export filtered catalog as CSV or JSON (streamed)
+ * @route GET /books/export?format=csv|json
+ */
+export const exportBooks = async (req: Request, res: Response) => {
+  try {
+    const { format = "csv", ...filters } = req.query;
+    if (format !== "csv" && format !== "json")
+      return res.status(400).json(response(false, "Format must be csv or json"));
+
+    const parsed = bookQuerySchema.safeParse(filters);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const query = parsed.data;
+    const where = buildBookWhere(query);
+    const filename = `books-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.status(200);
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    // Kolom sama dengan format import, jadi hasil export bisa langsung di-import ulang
+    res.write(format === "csv" ? toCsvRow([...EXPORT_COLUMNS]) : "[");
+
+    let skip = 0;
+    let first = true;
+    for (;;) {
+      const batch = await prisma.book.findMany({
+        where,
+        orderBy: [{ [query.orderBy]: query.order }, { id: "asc" }],
+        skip,
+        take: EXPORT_BATCH_SIZE,
+        include: { genre: { select: { name: true } } },
+      });
+      if (batch.length === 0) break;
+
+      for (const book of batch) {
+        const row = {
+          title: book.title,
+          writer: book.writer,
+          publisher: book.publisher,
+          publication_year: book.publication_year,
+          description: book.description,
+          price: book.price,
+          stock_quantity: book.stock_quantity,
+          reorder_threshold: book.reorder_threshold,
+          genre: book.genre.name,
+        };
+        if (format === "csv") {
+          res.write(toCsvRow(EXPORT_COLUMNS.map((c) => row[c])));
+        } else {
+          res.write((first ? "" : ",") + JSON.stringify(row));
+        }
+        first = false;
+      }
+
+      skip += batch.length;
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    if (format === "json") res.write("]");
+    res.end();
+  } catch (error) {
+    console.error(error);
+    // Header sudah terkirim → stream tidak bisa diubah jadi response error
+    if (res.headersSent) return res.end();
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+export const stockAdjustmentSchema = z
+  .object({
+    type: z.enum([StockMovementType.RESTOCK, StockMovementType.CORRECTION, StockMovementType.RETURN]),
+    quantity: z
+      .number()
+      .int()
+      .refine((v) => v !== 0, "Quantity cannot be zero"),
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+  })
+  .refine((data) => data.type === StockMovementType.CORRECTION || data.quantity > 0, {
+    message: "Restock and return must have a positive quantity",
+    path: ["quantity"],
+  });
+
+export const stockMovementQuerySchema = z
+  .object({
+    type: z.nativeEnum(StockMovementType).optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+/**
+ * @desc Adjust stock (restock, correction, return) — recorded in the ledger
+ * @route POST /books/:id/stock-adjustments
+ */
+export const createStockAdjustment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const parsed = stockAdjustmentSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { type, quantity, reason } = parsed.data;
+
+    const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const movement = await prisma.$transaction(async (tx) => {
+      const recorded = await adjustStock(tx, {
+        bookId: id,
+        type,
+        quantity,
+        reason,
+        actorId: (req as any).user?.id,
+      });
+      if (!recorded) throw new HttpError(409, "Adjustment would make stock negative");
+
+      if (quantity < 0) await syncCartsForBook(id, recorded.balance_after, tx);
+
+      await recordAudit(
+        req,
+        {
+          action: "book.stock_adjust",
+          entityType: "book",
+          entityId: id,
+          before: { stock_quantity: recorded.balance_after - quantity },
+          after: { stock_quantity: recorded.balance_after },
+          metadata: { movement_id: recorded.id, type, quantity, reason },
+        },
+        tx
+      );
+      return recorded;
+    });
+
+    if (quantity > 0) queueRestockNotifications([id]);
+
+    return res.status(201).json(
+      response(true, "Stock adjusted successfully", {
+        movement,
+        stock_quantity: movement.balance_after,
+      })
+    );
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Get stock movement ledger of a book
+ * @route GET /books/:id/stock-movements
+ */
+export const getStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const parsed = stockMovementQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const book = await prisma.book.findUnique({ where: { id } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const where = { book_id: id, type: parsed.data.type };
+
+    const [result, ledger] = await Promise.all([
+      paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+        findMany: (args) =>
+          prisma.stockMovement.findMany({
+            ...args,
+            where: { AND: [where, args.where] },
+            include: { actor: { select: { id: true, email: true } } },
+          }),
+        count: () => prisma.stockMovement.count({ where }),
+      }),
+      prisma.stockMovement.aggregate({ where: { book_id: id }, _sum: { quantity: true } }),
+    ]);
+
+    const ledgerBalance = ledger._sum.quantity || 0;
+
+    return res.status(200).json(
+      response(true, "Stock movements fetched successfully", {
+        ...result,
+        stock: {
+          stock_quantity: book.stock_quantity,
+          ledger_balance: ledgerBalance,
+          in_sync: ledgerBalance === book.stock_quantity,
+        },
+      })
+    );
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc List books whose stock_quantity differs from the ledger balance
+ * @route GET /books/stock-reconciliation
+ */
+export const getStockReconciliation = async (req: Request, res: Response) => {
+  try {
+    const [books, sums] = await Promise.all([
+      prisma.book.findMany({
+        where: { deleted_at: null },
+        select: { id: true, title: true, stock_quantity: true },
+      }),
+      prisma.stockMovement.groupBy({ by: ["book_id"], _sum: { quantity: true } }),
+    ]);
+
+    const ledgerBalances = new Map(sums.map((s) => [s.book_id, s._sum.quantity || 0]));
+
+    const mismatches = books
+      .map((b) => {
+        const ledgerBalance = ledgerBalances.get(b.id) || 0;
+        return {
+          book_id: b.id,
+          title: b.title,
+          stock_quantity: b.stock_quantity,
+          ledger_balance: ledgerBalance,
+          difference: b.stock_quantity - ledgerBalance,
+        };
+      })
+      .filter((b) => b.difference !== 0);
+
+    return res.status(200).json(
+      response(true, "Stock reconciliation completed", {
+        checked: books.length,
+        mismatched: mismatches.length,
+        mismatches,
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+export const lowStockQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+/**
+ * @desc List books at or under their reorder threshold, with sales velocity
+ * @route GET /books/low-stock?days=30
+ */
+export const getLowStockBooks = async (req: Request, res: Response) => {
+  try {
+    const parsed = lowStockQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { days } = parsed.data;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const books = await prisma.book.findMany({
+      where: { deleted_at: null, stock_quantity: { lte: prisma.book.fields.reorder_threshold } },
+      select: { id: true, title: true, writer: true, stock_quantity: true, reorder_threshold: true },
+    });
+
+    // Penjualan periode terakhir dari OrderItem (order batal tidak dihitung)
+    const sales = await prisma.orderItem.groupBy({
+      by: ["book_id"],
+      where: {
+        book_id: { in: books.map((b) => b.id) },
+        order: { created_at: { gte: since }, status: { not: OrderStatus.CANCELLED } },
+      },
+      _sum: { quantity: true },
+    });
+    const soldByBook = new Map(sales.map((s) => [s.book_id, s._sum.quantity || 0]));
+
+    const data = books
+      .map((b) => {
+        const unitsSold = soldByBook.get(b.id) || 0;
+        const dailyVelocity = unitsSold / days;
+        return {
+          ...b,
+          units_sold: unitsSold,
+          daily_velocity: Number(dailyVelocity.toFixed(2)),
+          // null = tidak ada penjualan, stok tidak diperkirakan habis
+          days_of_stock_left: dailyVelocity > 0 ? Math.floor(b.stock_quantity / dailyVelocity) : null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          (a.days_of_stock_left ?? Infinity) - (b.days_of_stock_left ?? Infinity) ||
+          a.stock_quantity - b.stock_quantity
+      );
+
+    return res
+      .status(200)
+      .json(response(true, "Low stock books fetched successfully", { period_days: days, data }));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Subscribe to a restock notification for an out-of-stock book
+ * @route POST /books/:id/notify-me
+ */
+export const subscribeRestock = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user?.id;
+
+    const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    if (book.stock_quantity > 0)
+      return res.status(409).json(response(false, "Book is in stock"));
+
+    // Subscribe ulang setelah pernah dinotifikasi → aktif lagi
+    const subscription = await prisma.stockSubscription.upsert({
+      where: { user_id_book_id: { user_id: userId, book_id: id } },
+      create: { user_id: userId, book_id: id },
+      update: { notified_at: null },
+    });
+
+    await recordAudit(req, {
+      action: "book.notify_subscribe",
+      entityType: "stock_subscription",
+      entityId: subscription.id,
+      metadata: { book_id: id },
+    });
+
+    return res.status(201).json(response(true, "You will be notified when the book is back in stock", subscription));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Cancel restock notification
+ * @route DELETE /books/:id/notify-me
+ */
+export const unsubscribeRestock = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user?.id;
+
+    const { count } = await prisma.stockSubscription.deleteMany({ where: { user_id: userId, book_id: id } });
+    if (count === 0) return res.status(404).json(response(false, "Subscription not found"));
+
+    await recordAudit(req, {
+      action: "book.notify_unsubscribe",
+      entityType: "stock_subscription",
+      metadata: { book_id: id },
+    });
+
+    return res.status(200).json(response(true, "Restock notification cancelled"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+export const relatedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * @desc "Customers also bought" — co-purchases, then same writer/genre
+ * @route GET /books/:id/related
+ */
+export const getRelated = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = relatedQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const related = await getRelatedBooks(book, parsed.data.limit);
+
+    return res.status(200).json(response(true, "Related books fetched successfully", related));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
@@ -0,0 +1,278 @@
+import { Request, Response } from "express";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { formatReceipt, placeOrder } from "../utils/checkout";
+import { recordAudit } from "../utils/audit";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const addItemSchema = z.object({
+  book_id: z.string().uuid(),
+  quantity: z.number().int().positive().default(1),
+});
+
+export const updateItemSchema = z.object({
+  quantity: z.number().int().positive(),
+});
+
+export const checkoutSchema = z.object({
+  coupon_code: z.string().trim().min(1).max(50).optional(),
+});
+
+/**
+ * Ambil cart user dengan harga & stok terkini. Item yang bukunya sudah
+ * dihapus atau stoknya kurang disesuaikan dulu, dan perubahannya dilaporkan
+ * di `adjustments` supaya client bisa memberi tahu user.
+ */
+const loadCart = async (userId: string) => {
+  const cartItems = await prisma.cartItem.findMany({
+    where: { user_id: userId },
+    include: { book: true },
+    orderBy: { created_at: "asc" },
+  });
+
+  const adjustments: { book_id: string; title: string; action: string; from: number; to: number }[] = [];
+  const items = [];
+
+  for (const item of cartItems) {
+    const { book } = item;
+
+    if (book.deleted_at || book.stock_quantity <= 0) {
+      await prisma.cartItem.delete({ where: { id: item.id } });
+      adjustments.push({ book_id: book.id, title: book.title, action: "removed", from: item.quantity, to: 0 });
+      continue;
+    }
+
+    let quantity = item.quantity;
+    if (quantity > book.stock_quantity) {
+      quantity = book.stock_quantity;
+      await prisma.cartItem.update({ where: { id: item.id }, data: { quantity } });
+      adjustments.push({
+        book_id: book.id,
+        title: book.title,
+        action: "quantity_reduced",
+        from: item.quantity,
+        to: quantity,
+      });
+    }
+
+    items.push({
+      book_id: book.id,
+      title: book.title,
+      writer: book.writer,
+      price: book.price,
+      stock_quantity: book.stock_quantity,
+      quantity,
+      subtotal: book.price * quantity,
+    });
+  }
+
+  return {
+    items,
+    total_quantity: items.reduce((sum, i) => sum + i.quantity, 0),
+    total_price: items.reduce((sum, i) => sum + i.subtotal, 0),
+    adjustments,
+  };
+};
+
+/**
+ * @desc Get current user's cart
+ * @route GET /cart/items
+ */
+export const getCart = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const cart = await loadCart(userId);
+
+    return res.status(200).json(response(true, "Cart fetched successfully", cart));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Add book to cart (quantity is added to existing line)
+ * @route POST /cart/items
+ */
+export const addCartItem = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = addItemSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { book_id, quantity } = parsed.data;
+
+    const book = await prisma.book.findFirst({ where: { id: book_id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const existing = await prisma.cartItem.findUnique({
+      where: { user_id_book_id: { user_id: userId, book_id } },
+    });
+    const newQuantity = (existing?.quantity || 0) + quantity;
+
+    if (newQuantity > book.stock_quantity)
+      return res.status(409).json(
+        response(false, "Insufficient stock", {
+          items: [{ book_id, title: book.title, requested: newQuantity, available: book.stock_quantity }],
+        })
+      );
+
+    await prisma.cartItem.upsert({
+      where: { user_id_book_id: { user_id: userId, book_id } },
+      create: { user_id: userId, book_id, quantity: newQuantity },
+      update: { quantity: newQuantity },
+    });
+
+    const cart = await loadCart(userId);
+
+    return res.status(201).json(response(true, "Item added to cart", cart));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Set quantity of a cart item
+ * @route PATCH /cart/items/:book_id
+ */
+export const updateCartItem = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { book_id } = req.params;
+
+    const parsed = updateItemSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { quantity } = parsed.data;
+
+    const item = await prisma.cartItem.findUnique({
+      where: { user_id_book_id: { user_id: userId, book_id } },
+      include: { book: true },
+    });
+    if (!item) return res.status(404).json(response(false, "Cart item not found"));
+
+    if (item.book.deleted_at) {
+      await prisma.cartItem.delete({ where: { id: item.id } });
+      return res.status(404).json(response(false, "Book not found"));
+    }
+
+    if (quantity > item.book.stock_quantity)
+      return res.status(409).json(
+        response(false, "Insufficient stock", {
+          items: [
+            { book_id, title: item.book.title, requested: quantity, available: item.book.stock_quantity },
+          ],
+        })
+      );
+
+    await prisma.cartItem.update({ where: { id: item.id }, data: { quantity } });
+
+    const cart = await loadCart(userId);
+
+    return res.status(200).json(response(true, "Cart item updated", cart));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Remove a book from cart
+ * @route DELETE /cart/items/:book_id
+ */
+export const removeCartItem = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { book_id } = req.params;
+
+    const { count } = await prisma.cartItem.deleteMany({ where: { user_id: userId, book_id } });
+    if (count === 0) return res.status(404).json(response(false, "Cart item not found"));
+
+    const cart = await loadCart(userId);
+
+    return res.status(200).json(response(true, "Cart item removed", cart));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Empty cart
+ * @route DELETE /cart/items
+ */
+export const clearCart = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    await prisma.cartItem.deleteMany({ where: { user_id: userId } });
+
+    return res.status(200).json(response(true, "Cart cleared"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Checkout cart into a transaction
+ * @route POST /cart/checkout
+ */
+export const checkoutCart = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = checkoutSchema.safeParse(req.body || {});
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    // Buku yang dihapus / habis dibuang dan jumlah disesuaikan dulu (seperti GET /cart/items).
+    // Kalau ada yang berubah, customer perlu melihat cart-nya sebelum membayar; retryable
+    // supaya checkout ulang dengan Idempotency-Key yang sama diproses, bukan di-replay
+    const cart = await loadCart(userId);
+    if (cart.adjustments.length > 0)
+      return res
+        .status(409)
+        .json(response(false, "Some items in your cart are no longer available, please review your cart", {
+          cart,
+          retryable: true,
+        }));
+
+    // Checkout + kosongkan cart dalam satu transaksi — kalau checkout gagal, cart tetap utuh
+    const order = await prisma.$transaction(async (tx) => {
+      const cartItems = await tx.cartItem.findMany({ where: { user_id: userId } });
+      if (cartItems.length === 0) throw new HttpError(400, "Cart is empty");
+
+      const placed = await placeOrder(tx, userId, cartItems, parsed.data.coupon_code);
+      await tx.cartItem.deleteMany({ where: { user_id: userId } });
+      await recordAudit(
+        req,
+        {
+          action: "order.create",
+          entityType: "order",
+          entityId: placed.id,
+          after: placed,
+          metadata: { source: "cart", coupon_code: parsed.data.coupon_code },
+        },
+        tx
+      );
+      return placed;
+    });
+
+    return res
+      .status(201)
+      .json(response(true, "Transaction created successfully", formatReceipt(order)));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
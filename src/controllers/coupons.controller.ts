@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { DiscountType, Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { discountRuleError, normalizeCouponCode } from "../utils/discounts";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const couponSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(50)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, - and _")
+    .transform(normalizeCouponCode),
+  description: z.string().trim().max(500).nullable().optional(),
+  type: z.nativeEnum(DiscountType),
+  value: z.number().int().positive(),
+  min_order_value: z.number().int().min(0).default(0),
+  max_uses: z.number().int().positive().nullable().optional(),
+  max_uses_per_user: z.number().int().positive().nullable().optional(),
+  starts_at: z.coerce.date().nullable().optional(),
+  ends_at: z.coerce.date().nullable().optional(),
+  is_active: z.boolean().optional(),
+  genre_ids: z.array(z.string().uuid()).optional(),
+  book_ids: z.array(z.string().uuid()).optional(),
+});
+
+export const couponQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+    is_active: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+const couponInclude = {
+  genres: { select: { id: true, name: true } },
+  books: { select: { id: true, title: true } },
+} satisfies Prisma.CouponInclude;
+
+// Pastikan semua genre/buku scope kupon ada sebelum di-connect
+const checkScope = async (genreIds: string[] = [], bookIds: string[] = []) => {
+  const [genres, books] = await Promise.all([
+    prisma.genre.findMany({ where: { id: { in: genreIds }, deleted_at: null }, select: { id: true } }),
+    prisma.book.findMany({ where: { id: { in: bookIds }, deleted_at: null }, select: { id: true } }),
+  ]);
+
+  const missingGenre = genreIds.find((id) => !genres.some((g) => g.id === id));
+  if (missingGenre) throw new HttpError(404, `Genre with ID ${missingGenre} not found`);
+
+  const missingBook = bookIds.find((id) => !books.some((b) => b.id === id));
+  if (missingBook) throw new HttpError(404, `Book with ID ${missingBook} not found`);
+};
+
+/**
+ * @desc Create coupon
+ * @route POST /coupons
+ */
+export const createCoupon = async (req: Request, res: Response) => {
+  try {
+    const parsed = couponSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { genre_ids, book_ids, ...data } = parsed.data;
+
+    const ruleError = discountRuleError(data);
+    if (ruleError) return res.status(400).json(response(false, ruleError));
+
+    const existing = await prisma.coupon.findUnique({ where: { code: data.code } });
+    if (existing) return res.status(409).json(response(false, "Coupon code already exists"));
+
+    await checkScope(genre_ids, book_ids);
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...data,
+        genres: { connect: (genre_ids || []).map((id) => ({ id })) },
+        books: { connect: (book_ids || []).map((id) => ({ id })) },
+      },
+      include: couponInclude,
+    });
+
+    return res.status(201).json(response(true, "Coupon created successfully", coupon));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Get all coupons
+ * @route GET /coupons
+ */
+export const getCoupons = async (req: Request, res: Response) => {
+  try {
+    const parsed = couponQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { search, is_active } = parsed.data;
+
+    const where: Prisma.CouponWhereInput = {
+      code: search ? { contains: search, mode: Prisma.QueryMode.insensitive } : undefined,
+      is_active,
+    };
+
+    const result = await paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.coupon.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: couponInclude,
+        }),
+      count: () => prisma.coupon.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Coupons fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Get coupon by ID
+ * @route GET /coupons/:id
+ */
+export const getCouponById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        ...couponInclude,
+        redemptions: {
+          orderBy: { created_at: "desc" },
+          take: 20,
+          include: { user: { select: { id: true, email: true } } },
+        },
+      },
+    });
+    if (!coupon) return res.status(404).json(response(false, "Coupon not found"));
+
+    return res.status(200).json(response(true, "Coupon fetched successfully", coupon));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Update coupon
+ * @route PATCH /coupons/:id
+ */
+export const updateCoupon = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = couponSchema.partial().safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { genre_ids, book_ids, ...data } = parsed.data;
+
+    const existing = await prisma.coupon.findUnique({ where: { id } });
+    if (!existing) return res.status(404).json(response(false, "Coupon not found"));
+
+    const ruleError = discountRuleError({ ...existing, ...data });
+    if (ruleError) return res.status(400).json(response(false, ruleError));
+
+    if (data.code && data.code !== existing.code) {
+      const duplicate = await prisma.coupon.findUnique({ where: { code: data.code } });
+      if (duplicate) return res.status(409).json(response(false, "Coupon code already exists"));
+    }
+
+    await checkScope(genre_ids, book_ids);
+
+    const updated = await prisma.coupon.update({
+      where: { id },
+      data: {
+        ...data,
+        genres: genre_ids ? { set: genre_ids.map((id) => ({ id })) } : undefined,
+        books: book_ids ? { set: book_ids.map((id) => ({ id })) } : undefined,
+      },
+      include: couponInclude,
+    });
+
+    return res.status(200).json(response(true, "Coupon updated successfully", updated));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Delete coupon (only if never redeemed)
+ * @route DELETE /coupons/:id
+ */
+export const deleteCoupon = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: { _count: { select: { redemptions: true } } },
+    });
+    if (!coupon) return res.status(404).json(response(false, "Coupon not found"));
+
+    // Riwayat redemption di order lama harus tetap utuh
+    if (coupon._count.redemptions > 0)
+      return res
+        .status(409)
+        .json(response(false, "Coupon has already been redeemed, deactivate it instead"));
+
+    await prisma.coupon.delete({ where: { id } });
+
+    return res.status(200).json(response(true, "Coupon deleted successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
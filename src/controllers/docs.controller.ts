@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import { apiInfo, buildApiDocument } from "../utils/openapi-spec";
+
+// Swagger UI dari CDN — tidak perlu dependency tambahan di server
+const SWAGGER_UI_VERSION = "5";
+
+const docsPage = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${apiInfo.title}</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: "/openapi.json", dom_id: "#swagger-ui", persistAuthorization: true });
+    </script>
+  </body>
+</html>
+`;
+
+// Dibangun dari router app saat pertama diminta — semua route sudah terpasang
+let openApiDocument: ReturnType<typeof buildApiDocument> | undefined;
+
+/**
+ * @desc OpenAPI 3 document generated from the Express routers and zod schemas
+ * @route GET /openapi.json
+ */
+export const getOpenApiDocument = (req: Request, res: Response) => {
+  openApiDocument ||= buildApiDocument(req.app);
+  return res.status(200).json(openApiDocument);
+};
+
+/**
+ * @desc Interactive API docs (Swagger UI)
+ * @route GET /docs
+ */
+export const getDocsPage = (req: Request, res: Response) => {
+  return res.status(200).type("html").send(docsPage);
+};
@@ -1,13 +1,66 @@
 import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../utils/prisma";
 import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { getGenreSubtreeIds, getGenreTree, uniqueGenreSlug } from "../utils/genres";
+import { syncCartsForBook } from "../utils/cart";
+import { recordAudit } from "../utils/audit";
+import { queueRestockNotifications } from "../utils/restock-notifier";
 import { z } from "zod";
 
+// Nama/slug bentrok dengan genre aktif lain — unique index parsial di manual-migrations/006_live_unique.sql
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
 // Validasi input pakai Zod
-const genreSchema = z.object({
+export const genreSchema = z.object({
   name: z.string().min(1, "Name is required"),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and single dashes")
+    .max(100)
+    .optional(),
+  parent_id: z.string().uuid().nullable().optional(),
 });
 
+export const genreQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+    parent_id: z.string().uuid().optional(),
+    // true = seluruh pohon genre dengan jumlah buku, tanpa pagination
+    tree: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+export const deleteQuerySchema = z
+  .object({
+    policy: z.enum(["block", "reassign", "cascade"]).default("block"),
+    reassign_to: z.string().uuid().optional(),
+  })
+  .refine((q) => q.policy !== "reassign" || q.reassign_to, {
+    message: "reassign_to is required when policy=reassign",
+    path: ["reassign_to"],
+  });
+
+export const trashQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+const genreRelations = {
+  parent: { select: { id: true, name: true, slug: true } },
+  children: {
+    where: { deleted_at: null },
+    select: { id: true, name: true, slug: true },
+    orderBy: { name: "asc" },
+  },
+} satisfies Prisma.GenreInclude;
+
 /**
  * @desc Create genre
  * @route POST /genre
@@ -19,70 +72,82 @@ export const createGenre = async (req: Request, res: Response) => {
       return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
     }
 
-    const { name } = parsed.data;
+    const { name, slug, parent_id } = parsed.data;
 
     // Cek duplikat
-    const existing = await prisma.genre.findUnique({ where: { name } });
+    const existing = await prisma.genre.findFirst({ where: { name, deleted_at: null } });
     if (existing) return res.status(409).json(response(false, "Genre already exists"));
 
-    const genre = await prisma.genre.create({ data: { name } });
+    if (slug && (await prisma.genre.findFirst({ where: { slug, deleted_at: null } })))
+      return res.status(409).json(response(false, "Genre slug already exists"));
+
+    if (parent_id) {
+      const parent = await prisma.genre.findFirst({ where: { id: parent_id, deleted_at: null } });
+      if (!parent) return res.status(404).json(response(false, "Parent genre not found"));
+    }
+
+    const genre = await prisma.genre.create({
+      data: { name, slug: slug || (await uniqueGenreSlug(name)), parent_id },
+      include: genreRelations,
+    });
+
+    await recordAudit(req, {
+      action: "genre.create",
+      entityType: "genre",
+      entityId: genre.id,
+      after: genre,
+    });
 
     return res.status(201).json(response(true, "Genre created successfully", genre));
   } catch (error) {
+    if (isUniqueViolation(error))
+      return res.status(409).json(response(false, "A live genre with the same name or slug already exists"));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
 
 /**
- * @desc Get all genres (pagination + search)
- * @route GET /genre
+ * @desc Get all genres (pagination + search, or the full tree with book counts)
+ * @route GET /genre?tree=true
  */
 export const getGenres = async (req: Request, res: Response) => {
   try {
-    const { search, page = "1", limit = "10" } = req.query;
+    const parsed = genreQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+    }
+
+    const { search, parent_id, tree } = parsed.data;
 
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
+    if (tree) {
+      const genres = await getGenreTree();
+      return res.status(200).json(response(true, "Genres fetched successfully", genres));
+    }
 
-    const where = {
+    const where: Prisma.GenreWhereInput = {
       deleted_at: null,
-      name: {
-        contains: search ? String(search) : undefined,
-        mode: "insensitive",
-      },
+      name: search ? { contains: search, mode: Prisma.QueryMode.insensitive } : undefined,
+      parent_id,
     };
 
-    const [data, total] = await Promise.all([
-      prisma.genre.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy: { name: "asc" },
-      }),
-      prisma.genre.count({ where }),
-    ]);
-
-    return res.status(200).json(
-      response(true, "Genres fetched successfully", {
-        data,
-        meta: {
-          total,
-          page: pageNum,
-          limit: limitNum,
-          totalPages: Math.ceil(total / limitNum),
-        },
-      })
-    );
+    const result = await paginate(req, parsed.data, { field: "name", order: "asc" }, {
+      findMany: (args) => prisma.genre.findMany({ ...args, where: { AND: [where, args.where] } }),
+      count: () => prisma.genre.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Genres fetched successfully", result));
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    }
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
 
 /**
- * @desc Get genre by ID
+ * @desc Get genre by ID or slug
  * @route GET /genre/:id
  */
 export const getGenreById = async (req: Request, res: Response) => {
@@ -90,7 +155,8 @@ export const getGenreById = async (req: Request, res: Response) => {
     const { id } = req.params;
 
     const genre = await prisma.genre.findFirst({
-      where: { id, deleted_at: null },
+      where: { OR: [{ id }, { slug: id }], deleted_at: null },
+      include: genreRelations,
     });
 
     if (!genre) return res.status(404).json(response(false, "Genre not found"));
@@ -109,43 +175,323 @@ export const getGenreById = async (req: Request, res: Response) => {
 export const updateGenre = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const parsed = genreSchema.safeParse(req.body);
+    const parsed = genreSchema.partial().safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
     }
 
-    const { name } = parsed.data;
+    const { name, slug, parent_id } = parsed.data;
 
     const existing = await prisma.genre.findFirst({ where: { id, deleted_at: null } });
     if (!existing) return res.status(404).json(response(false, "Genre not found"));
 
-    const updated = await prisma.genre.update({ where: { id }, data: { name } });
+    if (name && name !== existing.name && (await prisma.genre.findFirst({ where: { name, deleted_at: null } })))
+      return res.status(409).json(response(false, "Genre already exists"));
+
+    if (slug && slug !== existing.slug && (await prisma.genre.findFirst({ where: { slug, deleted_at: null } })))
+      return res.status(409).json(response(false, "Genre slug already exists"));
+
+    if (parent_id) {
+      const parent = await prisma.genre.findFirst({ where: { id: parent_id, deleted_at: null } });
+      if (!parent) return res.status(404).json(response(false, "Parent genre not found"));
+
+      // Induk tidak boleh genre itu sendiri atau turunannya (membentuk siklus)
+      const subtree = await getGenreSubtreeIds(id);
+      if (subtree.includes(parent_id))
+        return res
+          .status(400)
+          .json(response(false, "A genre cannot be moved under itself or one of its sub-genres"));
+    }
+
+    // Slug tidak ikut berubah saat rename, supaya URL lama tetap jalan
+    const updated = await prisma.genre.update({
+      where: { id },
+      data: { name, slug, parent_id },
+      include: genreRelations,
+    });
+
+    await recordAudit(req, {
+      action: "genre.update",
+      entityType: "genre",
+      entityId: id,
+      before: existing,
+      after: updated,
+    });
 
     return res.status(200).json(response(true, "Genre updated successfully", updated));
   } catch (error) {
+    if (isUniqueViolation(error))
+      return res.status(409).json(response(false, "A live genre with the same name or slug already exists"));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
 
 /**
- * @desc Soft delete genre
- * @route DELETE /genre/:id
+ * @desc Soft delete genre with a policy for its books and sub-genres
+ * @route DELETE /genre/:id?policy=block|reassign|cascade&reassign_to=<genre_id>
  */
 export const deleteGenre = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
+    const parsed = deleteQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+    }
+
+    const { policy, reassign_to } = parsed.data;
+
     const genre = await prisma.genre.findFirst({ where: { id, deleted_at: null } });
     if (!genre) return res.status(404).json(response(false, "Genre not found"));
 
-    await prisma.genre.update({
-      where: { id },
-      data: { deleted_at: new Date() },
+    if (policy === "block") {
+      const [bookCount, subgenreCount] = await Promise.all([
+        prisma.bookGenre.count({ where: { genre_id: id, book: { deleted_at: null } } }),
+        prisma.genre.count({ where: { parent_id: id, deleted_at: null } }),
+      ]);
+      if (bookCount > 0 || subgenreCount > 0)
+        return res.status(409).json(
+          response(false, "Genre still has books or sub-genres, use policy=reassign or policy=cascade", {
+            book_count: bookCount,
+            subgenre_count: subgenreCount,
+          })
+        );
+
+      const deleted = await prisma.genre.update({ where: { id }, data: { deleted_at: new Date() } });
+
+      await recordAudit(req, {
+        action: "genre.delete",
+        entityType: "genre",
+        entityId: id,
+        before: genre,
+        after: deleted,
+        metadata: { policy },
+      });
+
+      return res.status(200).json(response(true, "Genre deleted successfully"));
+    }
+
+    if (policy === "reassign") {
+      const target = await prisma.genre.findFirst({ where: { id: reassign_to, deleted_at: null } });
+      if (!target) return res.status(404).json(response(false, "Target genre not found"));
+
+      const subtree = await getGenreSubtreeIds(id);
+      if (subtree.includes(target.id))
+        return res
+          .status(400)
+          .json(response(false, "Cannot reassign to the genre itself or one of its sub-genres"));
+
+      const result = await prisma.$transaction(async (tx) => {
+        // Termasuk buku di trash, supaya nanti bisa di-restore tanpa genre mati
+        const books = await tx.book.updateMany({ where: { genre_id: id }, data: { genre_id: target.id } });
+
+        const links = await tx.bookGenre.findMany({ where: { genre_id: id }, select: { book_id: true } });
+        await tx.bookGenre.createMany({
+          data: links.map((l) => ({ book_id: l.book_id, genre_id: target.id })),
+          skipDuplicates: true,
+        });
+        await tx.bookGenre.deleteMany({ where: { genre_id: id } });
+
+        const subgenres = await tx.genre.updateMany({
+          where: { parent_id: id, deleted_at: null },
+          data: { parent_id: target.id },
+        });
+
+        const deleted = await tx.genre.update({ where: { id }, data: { deleted_at: new Date() } });
+
+        const counts = { books_reassigned: books.count, subgenres_moved: subgenres.count };
+        await recordAudit(
+          req,
+          {
+            action: "genre.delete",
+            entityType: "genre",
+            entityId: id,
+            before: genre,
+            after: deleted,
+            metadata: { policy, reassigned_to: target.id, ...counts },
+          },
+          tx
+        );
+
+        return counts;
+      });
+
+      return res
+        .status(200)
+        .json(response(true, "Genre deleted successfully", { reassigned_to: target.id, ...result }));
+    }
+
+    // cascade: genre, semua sub-genre & buku yang genre utamanya ada di subtree ikut ke trash.
+    // Semua baris diberi deleted_at yang sama persis — restore memakai ini untuk
+    // mengembalikan satu kelompok cascade sekaligus.
+    const subtree = await getGenreSubtreeIds(id);
+    const deletedAt = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const books = await tx.book.findMany({
+        where: { genre_id: { in: subtree }, deleted_at: null },
+        select: { id: true },
+      });
+
+      await tx.genre.updateMany({ where: { id: { in: subtree } }, data: { deleted_at: deletedAt } });
+      await tx.book.updateMany({
+        where: { id: { in: books.map((b) => b.id) } },
+        data: { deleted_at: deletedAt },
+      });
+      for (const book of books) await syncCartsForBook(book.id, null, tx);
+
+      await recordAudit(
+        req,
+        {
+          action: "genre.delete",
+          entityType: "genre",
+          entityId: id,
+          before: { deleted_at: null },
+          after: { deleted_at: deletedAt },
+          metadata: { policy, genre_ids: subtree, book_ids: books.map((b) => b.id) },
+        },
+        tx
+      );
+
+      return { genres_deleted: subtree.length, books_deleted: books.length };
+    });
+
+    return res.status(200).json(response(true, "Genre deleted successfully", result));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc List soft-deleted genres (admin)
+ * @route GET /genre/trash
+ */
+export const getTrashedGenres = async (req: Request, res: Response) => {
+  try {
+    const parsed = trashQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+    }
+
+    const { search } = parsed.data;
+
+    const where: Prisma.GenreWhereInput = {
+      deleted_at: { not: null },
+      name: search ? { contains: search, mode: Prisma.QueryMode.insensitive } : undefined,
+    };
+
+    const result = await paginate(req, parsed.data, { field: "deleted_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.genre.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: { parent: { select: { id: true, name: true, deleted_at: true } } },
+        }),
+      count: () => prisma.genre.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Deleted genres fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    }
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Restore soft-deleted genre, with sub-genres and books deleted in the same cascade
+ * @route POST /genre/:id/restore
+ */
+export const restoreGenre = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const genre = await prisma.genre.findFirst({ where: { id, deleted_at: { not: null } } });
+    if (!genre) return res.status(404).json(response(false, "Deleted genre not found"));
+
+    if (genre.parent_id) {
+      const parent = await prisma.genre.findFirst({ where: { id: genre.parent_id, deleted_at: null } });
+      if (!parent)
+        return res.status(409).json(response(false, "Parent genre is deleted, restore it first"));
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Kumpulkan sub-genre yang terhapus di cascade yang sama (deleted_at identik)
+      const group = [genre];
+      for (let frontier = [genre.id]; frontier.length > 0; ) {
+        const children = await tx.genre.findMany({
+          where: { parent_id: { in: frontier }, deleted_at: genre.deleted_at },
+        });
+        group.push(...children);
+        frontier = children.map((c) => c.id);
+      }
+
+      const conflicts = await tx.genre.findMany({
+        where: {
+          deleted_at: null,
+          OR: [{ name: { in: group.map((g) => g.name) } }, { slug: { in: group.map((g) => g.slug) } }],
+        },
+        select: { id: true, name: true, slug: true },
+      });
+      if (conflicts.length > 0)
+        throw new HttpError(409, "A live genre with the same name or slug already exists", { conflicts });
+
+      const groupIds = group.map((g) => g.id);
+      await tx.genre.updateMany({ where: { id: { in: groupIds } }, data: { deleted_at: null } });
+
+      // Buku yang judulnya sudah dipakai buku aktif lain tetap di trash
+      const books = await tx.book.findMany({
+        where: { genre_id: { in: groupIds }, deleted_at: genre.deleted_at },
+        select: { id: true, title: true, stock_quantity: true },
+      });
+      const taken = await tx.book.findMany({
+        where: { title: { in: books.map((b) => b.title) }, deleted_at: null },
+        select: { title: true },
+      });
+      const skipped = books.filter((b) => taken.some((t) => t.title === b.title));
+      const restored = books.filter((b) => !skipped.includes(b));
+      await tx.book.updateMany({
+        where: { id: { in: restored.map((b) => b.id) } },
+        data: { deleted_at: null },
+      });
+
+      await recordAudit(
+        req,
+        {
+          action: "genre.restore",
+          entityType: "genre",
+          entityId: id,
+          before: { deleted_at: genre.deleted_at },
+          after: { deleted_at: null },
+          metadata: { genre_ids: groupIds, book_ids: restored.map((b) => b.id) },
+        },
+        tx
+      );
+
+      return {
+        inStockIds: restored.filter((b) => b.stock_quantity > 0).map((b) => b.id),
+        summary: {
+          genres_restored: groupIds.length,
+          books_restored: restored.length,
+          books_skipped: skipped.map((b) => ({ id: b.id, title: b.title, reason: "Title already in use" })),
+        },
+      };
     });
 
-    return res.status(200).json(response(true, "Genre deleted successfully"));
+    // Buku yang kembali dijual & masih ada stok → kabari pelanggan "notify me"
+    queueRestockNotifications(result.inStockIds);
+
+    return res.status(200).json(response(true, "Genre restored successfully", result.summary));
   } catch (error) {
+    if (isUniqueViolation(error))
+      return res.status(409).json(response(false, "A live genre with the same name or slug already exists"));
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    }
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
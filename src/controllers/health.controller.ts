@@ -0,0 +1,13 @@
+import { Request, Response } from "express";
+
+/**
+ * @desc Health check
+ * @route GET /health
+ */
+export const getHealth = (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    message: "Server is running",
+    data: { date: new Date().toISOString() },
+  });
+};
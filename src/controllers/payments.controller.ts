@@ -0,0 +1,154 @@
+import { Request, Response } from "express";
+import { OrderStatus, PaymentStatus } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { ENABLE_FAKE_PAYMENTS } from "../utils/config";
+import { FakePaymentProvider, getPaymentProvider } from "../utils/payment-provider";
+import { expireUnpaidOrders, processPaymentEvent } from "../utils/payments";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const paymentSchema = z.object({
+  order_id: z.string().uuid(),
+});
+
+export const simulateSchema = z.object({
+  outcome: z.enum(["succeeded", "failed"]),
+  failure_reason: z.string().trim().max(200).optional(),
+  // Kirim webhook yang sama dua kali untuk menguji idempotensi
+  duplicate: z.boolean().default(false),
+});
+
+/**
+ * @desc Create payment intent for own pending order
+ * @route POST /payments
+ */
+export const createPayment = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = paymentSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const order = await prisma.order.findUnique({ where: { id: parsed.data.order_id } });
+    if (!order || order.user_id !== userId)
+      return res.status(404).json(response(false, "Transaction not found"));
+
+    if (order.status !== OrderStatus.PENDING || (order.expires_at && order.expires_at <= new Date()))
+      return res
+        .status(409)
+        .json(response(false, `Transaction with status ${order.status} cannot be paid`));
+
+    // Intent yang masih menunggu dipakai ulang, supaya klik "bayar" dua kali tidak membuat dua tagihan
+    const existing = await prisma.payment.findFirst({
+      where: { order_id: order.id, status: PaymentStatus.PENDING },
+    });
+    if (existing) return res.status(200).json(response(true, "Payment already created", existing));
+
+    const provider = getPaymentProvider();
+    const intent = await provider.createIntent({ orderId: order.id, amount: order.total_price });
+
+    const payment = await prisma.payment.create({
+      data: {
+        order_id: order.id,
+        provider: provider.name,
+        provider_ref: intent.provider_ref,
+        checkout_url: intent.checkout_url,
+        amount: order.total_price,
+      },
+    });
+
+    return res.status(201).json(response(true, "Payment created successfully", payment));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Receive signed payment webhook from provider
+ * @route POST /payments/webhook
+ */
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+  try {
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) return res.status(400).json(response(false, "Missing webhook payload"));
+
+    const provider = getPaymentProvider();
+    const event = provider.parseWebhook(rawBody, req.headers);
+    const result = await processPaymentEvent(provider.name, event, req);
+
+    return res
+      .status(200)
+      .json(response(true, result.duplicate ? "Webhook already processed" : "Webhook processed", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Simulate provider webhook for a payment (admin; fake provider with ENABLE_FAKE_PAYMENTS=true only)
+ * @route POST /payments/:id/simulate
+ */
+export const simulatePayment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const provider = getPaymentProvider();
+    if (!(provider instanceof FakePaymentProvider) || !ENABLE_FAKE_PAYMENTS)
+      return res.status(404).json(response(false, "Payment simulation is not available"));
+
+    const parsed = simulateSchema.safeParse(req.body || {});
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const payment = await prisma.payment.findUnique({ where: { id } });
+    if (!payment) return res.status(404).json(response(false, "Payment not found"));
+
+    const { outcome, failure_reason, duplicate } = parsed.data;
+    const webhook = provider.buildWebhook({
+      type: outcome === "succeeded" ? "payment.succeeded" : "payment.failed",
+      provider_ref: payment.provider_ref,
+      amount: payment.amount,
+      failure_reason: outcome === "failed" ? failure_reason || "Card declined" : undefined,
+    });
+
+    // Lewat jalur yang sama dengan webhook asli, termasuk verifikasi signature
+    const deliveries = [];
+    for (let i = 0; i < (duplicate ? 2 : 1); i++) {
+      const event = provider.parseWebhook(Buffer.from(webhook.body), webhook.headers);
+      deliveries.push(await processPaymentEvent(provider.name, event, req));
+    }
+
+    return res
+      .status(200)
+      .json(response(true, "Webhook simulated successfully", { webhook, deliveries }));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Expire overdue unpaid orders now (admin; normally runs on a timer)
+ * @route POST /payments/expire
+ */
+export const expireOrders = async (req: Request, res: Response) => {
+  try {
+    const expired = await expireUnpaidOrders(new Date(), req);
+
+    return res.status(200).json(
+      response(true, "Overdue orders expired successfully", { count: expired.length, order_ids: expired })
+    );
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
@@ -0,0 +1,167 @@
+import { Request, Response } from "express";
+import { DiscountType, Prisma, Role } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { activeAt, discountRuleError } from "../utils/discounts";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const promotionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  genre_id: z.string().uuid(),
+  type: z.nativeEnum(DiscountType),
+  value: z.number().int().positive(),
+  starts_at: z.coerce.date().nullable().optional(),
+  ends_at: z.coerce.date().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const promotionQuerySchema = z
+  .object({
+    genre_id: z.string().uuid().optional(),
+    // true = hanya promo yang sedang berlaku sekarang
+    active: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+const promotionInclude = {
+  genre: { select: { id: true, name: true } },
+} satisfies Prisma.PromotionInclude;
+
+/**
+ * @desc Create genre-wide promotion
+ * @route POST /promotions
+ */
+export const createPromotion = async (req: Request, res: Response) => {
+  try {
+    const parsed = promotionSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const ruleError = discountRuleError(parsed.data);
+    if (ruleError) return res.status(400).json(response(false, ruleError));
+
+    const genre = await prisma.genre.findFirst({
+      where: { id: parsed.data.genre_id, deleted_at: null },
+    });
+    if (!genre) return res.status(404).json(response(false, "Genre not found"));
+
+    const promotion = await prisma.promotion.create({
+      data: parsed.data,
+      include: promotionInclude,
+    });
+
+    return res.status(201).json(response(true, "Promotion created successfully", promotion));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Get all promotions
+ * @route GET /promotions
+ */
+export const getPromotions = async (req: Request, res: Response) => {
+  try {
+    const parsed = promotionQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { genre_id, active } = parsed.data;
+
+    // Customer hanya melihat promo yang sedang berlaku
+    const isAdmin = (req as any).user?.role === Role.ADMIN;
+
+    const where: Prisma.PromotionWhereInput = {
+      genre_id,
+      ...((active || !isAdmin) && activeAt(new Date())),
+    };
+
+    const result = await paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.promotion.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: promotionInclude,
+        }),
+      count: () => prisma.promotion.count({ where }),
+    });
+
+    return res.status(200).json(response(true, "Promotions fetched successfully", result));
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Update promotion
+ * @route PATCH /promotions/:id
+ */
+export const updatePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = promotionSchema.partial().safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) return res.status(404).json(response(false, "Promotion not found"));
+
+    const ruleError = discountRuleError({ ...existing, ...parsed.data });
+    if (ruleError) return res.status(400).json(response(false, ruleError));
+
+    if (parsed.data.genre_id) {
+      const genre = await prisma.genre.findFirst({
+        where: { id: parsed.data.genre_id, deleted_at: null },
+      });
+      if (!genre) return res.status(404).json(response(false, "Genre not found"));
+    }
+
+    const updated = await prisma.promotion.update({
+      where: { id },
+      data: parsed.data,
+      include: promotionInclude,
+    });
+
+    return res.status(200).json(response(true, "Promotion updated successfully", updated));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Delete promotion (only if never applied to an order)
+ * @route DELETE /promotions/:id
+ */
+export const deletePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id },
+      include: { _count: { select: { order_items: true } } },
+    });
+    if (!promotion) return res.status(404).json(response(false, "Promotion not found"));
+
+    if (promotion._count.order_items > 0)
+      return res
+        .status(409)
+        .json(response(false, "Promotion has already been applied to orders, deactivate it instead"));
+
+    await prisma.promotion.delete({ where: { id } });
+
+    return res.status(200).json(response(true, "Promotion deleted successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
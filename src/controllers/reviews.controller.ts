@@ -0,0 +1,226 @@
+import { Request, Response } from "express";
+import { Prisma, ReviewStatus, Role } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { PAID_ORDER_STATUSES } from "../utils/order-status";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const reviewSchema = z.object({
+  rating: z.number().int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  body: z.string().trim().max(5000).optional(),
+});
+
+export const moderationSchema = z.object({
+  status: z.nativeEnum(ReviewStatus),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const reviewQuerySchema = z
+  .object({
+    // Hanya admin yang boleh melihat review tersembunyi
+    include_hidden: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+// Hitung ulang rata-rata & jumlah review VISIBLE yang disimpan di Book
+const refreshBookRating = async (tx: Prisma.TransactionClient, bookId: string) => {
+  const stats = await tx.review.aggregate({
+    where: { book_id: bookId, status: ReviewStatus.VISIBLE },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  await tx.book.update({
+    where: { id: bookId },
+    data: {
+      average_rating: Number((stats._avg.rating || 0).toFixed(2)),
+      review_count: stats._count._all,
+    },
+  });
+};
+
+/**
+ * @desc Get reviews of a book
+ * @route GET /books/:id/reviews
+ */
+export const getReviews = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const isAdmin = (req as any).user?.role === Role.ADMIN;
+
+    const parsed = reviewQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const where: Prisma.ReviewWhereInput = {
+      book_id: id,
+      status: isAdmin && parsed.data.include_hidden ? undefined : ReviewStatus.VISIBLE,
+    };
+
+    const result = await paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.review.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: { user: { select: { id: true, username: true } } },
+        }),
+      count: () => prisma.review.count({ where }),
+    });
+
+    return res.status(200).json(
+      response(true, "Reviews fetched successfully", {
+        ...result,
+        summary: { average_rating: book.average_rating, review_count: book.review_count },
+      })
+    );
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Create review (only for users who bought the book)
+ * @route POST /books/:id/reviews
+ */
+export const createReview = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user?.id;
+
+    const parsed = reviewSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const book = await prisma.book.findFirst({ where: { id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    // Hanya pembeli yang boleh review — order PENDING belum dibayar, jadi belum dihitung
+    const purchased = await prisma.orderItem.findFirst({
+      where: { book_id: id, order: { user_id: userId, status: { in: PAID_ORDER_STATUSES } } },
+    });
+    if (!purchased)
+      return res.status(403).json(response(false, "Only customers who bought this book can review it"));
+
+    const existing = await prisma.review.findUnique({
+      where: { user_id_book_id: { user_id: userId, book_id: id } },
+    });
+    if (existing) return res.status(409).json(response(false, "You have already reviewed this book"));
+
+    const review = await prisma.$transaction(async (tx) => {
+      const created = await tx.review.create({
+        data: { book_id: id, user_id: userId, rating: parsed.data.rating, body: parsed.data.body },
+      });
+      await refreshBookRating(tx, id);
+      return created;
+    });
+
+    return res.status(201).json(response(true, "Review created successfully", review));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Update own review
+ * @route PATCH /books/:id/reviews/:review_id
+ */
+export const updateReview = async (req: Request, res: Response) => {
+  try {
+    const { id, review_id } = req.params;
+    const userId = (req as any).user?.id;
+
+    const parsed = reviewSchema.partial().safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const review = await prisma.review.findFirst({ where: { id: review_id, book_id: id } });
+    if (!review) return res.status(404).json(response(false, "Review not found"));
+    if (review.user_id !== userId)
+      return res.status(403).json(response(false, "You can only edit your own review"));
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.review.update({ where: { id: review_id }, data: parsed.data });
+      await refreshBookRating(tx, id);
+      return saved;
+    });
+
+    return res.status(200).json(response(true, "Review updated successfully", updated));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Delete review (author, or admin removing it)
+ * @route DELETE /books/:id/reviews/:review_id
+ */
+export const deleteReview = async (req: Request, res: Response) => {
+  try {
+    const { id, review_id } = req.params;
+    const user = (req as any).user;
+
+    const review = await prisma.review.findFirst({ where: { id: review_id, book_id: id } });
+    if (!review) return res.status(404).json(response(false, "Review not found"));
+    if (review.user_id !== user?.id && user?.role !== Role.ADMIN)
+      return res.status(403).json(response(false, "You can only delete your own review"));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.review.delete({ where: { id: review_id } });
+      await refreshBookRating(tx, id);
+    });
+
+    return res.status(200).json(response(true, "Review deleted successfully"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Hide or unhide a review (admin)
+ * @route PATCH /books/:id/reviews/:review_id/moderation
+ */
+export const moderateReview = async (req: Request, res: Response) => {
+  try {
+    const { id, review_id } = req.params;
+    const adminId = (req as any).user?.id;
+
+    const parsed = moderationSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const review = await prisma.review.findFirst({ where: { id: review_id, book_id: id } });
+    if (!review) return res.status(404).json(response(false, "Review not found"));
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.review.update({
+        where: { id: review_id },
+        data: {
+          status: parsed.data.status,
+          moderation_note: parsed.data.note,
+          moderated_by_id: adminId,
+          moderated_at: new Date(),
+        },
+      });
+      await refreshBookRating(tx, id);
+      return saved;
+    });
+
+    return res.status(200).json(response(true, "Review moderated successfully", updated));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
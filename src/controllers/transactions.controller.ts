@@ -1,92 +1,82 @@
 import { Request, Response } from "express";
+import { OrderStatus, Prisma, Role } from "@prisma/client";
 import { prisma } from "../utils/prisma";
 import { response } from "../utils/response";
+import { HttpError } from "../utils/errors";
+import { CUSTOMER_CANCELLABLE, transitionOrder } from "../utils/order-status";
+import { formatReceipt, placeOrder } from "../utils/checkout";
+import { checkPagination, paginate, paginationFields } from "../utils/pagination";
+import { queueRestockNotifications } from "../utils/restock-notifier";
+import { recordAudit } from "../utils/audit";
 import { z } from "zod";
 
+export const transactionQuerySchema = z
+  .object({
+    all: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+    status: z.nativeEnum(OrderStatus).optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination);
+
+export const createTransactionSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        book_id: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, "Items cannot be empty"),
+  coupon_code: z.string().trim().min(1).max(50).optional(),
+});
+
+export const transactionStatusSchema = z.object({
+  status: z.nativeEnum(OrderStatus),
+  note: z.string().max(500).optional(),
+});
+
+export const cancelTransactionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
 /**
  * @desc Create transaction
  * @route POST /transactions
  */
 export const createTransaction = async (req: Request, res: Response) => {
   try {
-    // Ambil user_id dari token atau body (biar fleksibel)
-    const userId = (req as any).user?.id || req.body.user_id;
-
-    const schema = z.object({
-      items: z
-        .array(
-          z.object({
-            book_id: z.string().uuid(),
-            quantity: z.number().int().positive(),
-          })
-        )
-        .min(1, "Items cannot be empty"),
-    });
+    // Ambil user_id dari token — customer hanya boleh membuat order untuk dirinya sendiri
+    const userId = (req as any).user?.id;
 
-    const parsed = schema.safeParse(req.body);
+    const parsed = createTransactionSchema.safeParse(req.body);
     if (!parsed.success)
       return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
 
-    const { items } = parsed.data;
-
-    // Validasi buku & stok
-    for (const item of items) {
-      const book = await prisma.book.findFirst({
-        where: { id: item.book_id, deleted_at: null },
-      });
-      if (!book)
-        return res.status(404).json(response(false, `Book with ID ${item.book_id} not found`));
-      if (book.stock_quantity < item.quantity)
-        return res
-          .status(400)
-          .json(response(false, `Insufficient stock for book: ${book.title}`));
-    }
-
-    // Buat order
-    const order = await prisma.order.create({
-      data: {
-        user_id: userId,
-        items: {
-          create: items.map((item) => ({
-            book_id: item.book_id,
-            quantity: item.quantity,
-          })),
+    const { items, coupon_code } = parsed.data;
+
+    // Semua langkah checkout dalam satu transaksi database — gagal di tengah = rollback semua
+    const order = await prisma.$transaction(async (tx) => {
+      const placed = await placeOrder(tx, userId, items, coupon_code);
+      await recordAudit(
+        req,
+        {
+          action: "order.create",
+          entityType: "order",
+          entityId: placed.id,
+          after: placed,
+          metadata: { items, coupon_code },
         },
-      },
-      include: {
-        items: { include: { book: { select: { id: true, title: true, price: true } } } },
-      },
+        tx
+      );
+      return placed;
     });
 
-    // Kurangi stok buku
-    for (const item of items) {
-      await prisma.book.update({
-        where: { id: item.book_id },
-        data: { stock_quantity: { decrement: item.quantity } },
-      });
-    }
-
-    // Hitung total harga
-    const totalPrice = order.items.reduce(
-      (sum, i) => sum + i.book.price * i.quantity,
-      0
-    );
-
-    return res.status(201).json(
-      response(true, "Transaction created successfully", {
-        order_id: order.id,
-        user_id: userId,
-        total_price: totalPrice,
-        items: order.items.map((i) => ({
-          book_id: i.book.id,
-          title: i.book.title,
-          quantity: i.quantity,
-          price_each: i.book.price,
-          subtotal: i.book.price * i.quantity,
-        })),
-      })
-    );
+    return res
+      .status(201)
+      .json(response(true, "Transaction created successfully", formatReceipt(order)));
   } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
@@ -99,23 +89,39 @@ export const createTransaction = async (req: Request, res: Response) => {
 export const getTransactions = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.id;
-    const showAll = req.query.all === "true"; // ?all=true
 
-    const where = showAll ? {} : { user_id: userId };
+    const parsed = transactionQuerySchema.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
 
-    const transactions = await prisma.order.findMany({
-      where,
-      include: {
-        user: { select: { id: true, email: true } },
-        items: {
-          include: { book: { select: { id: true, title: true, price: true } } },
-        },
-      },
-      orderBy: { created_at: "desc" },
+    const { all: showAll, status } = parsed.data; // ?all=true
+
+    // Hanya admin yang boleh melihat semua order
+    if (showAll && (req as any).user?.role !== Role.ADMIN)
+      return res.status(403).json(response(false, "Forbidden: insufficient permissions"));
+
+    const where: Prisma.OrderWhereInput = {
+      user_id: showAll ? undefined : userId,
+      status,
+    };
+
+    const result = await paginate(req, parsed.data, { field: "created_at", order: "desc" }, {
+      findMany: (args) =>
+        prisma.order.findMany({
+          ...args,
+          where: { AND: [where, args.where] },
+          include: {
+            user: { select: { id: true, email: true } },
+            items: true,
+          },
+        }),
+      count: () => prisma.order.count({ where }),
     });
 
-    return res.status(200).json(response(true, "Transactions fetched successfully", transactions));
+    return res.status(200).json(response(true, "Transactions fetched successfully", result));
   } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
     console.error(error);
     return res.status(500).json(response(false, "Internal server error"));
   }
@@ -128,18 +134,25 @@ export const getTransactions = async (req: Request, res: Response) => {
 export const getTransactionById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const user = (req as any).user;
 
     const order = await prisma.order.findUnique({
       where: { id },
       include: {
         user: { select: { id: true, email: true } },
-        items: {
-          include: { book: { select: { id: true, title: true, price: true } } },
+        items: true,
+        coupon_redemption: true,
+        payments: { orderBy: { created_at: "asc" } },
+        status_history: {
+          include: { actor: { select: { id: true, email: true } } },
+          orderBy: { created_at: "asc" },
         },
       },
     });
 
-    if (!order) return res.status(404).json(response(false, "Transaction not found"));
+    // Customer tidak boleh melihat order milik user lain (balas 404 agar tidak bocor)
+    if (!order || (user?.role !== Role.ADMIN && order.user_id !== user?.id))
+      return res.status(404).json(response(false, "Transaction not found"));
 
     return res.status(200).json(response(true, "Transaction fetched successfully", order));
   } catch (error) {
@@ -154,19 +167,17 @@ export const getTransactionById = async (req: Request, res: Response) => {
  */
 export const getStatistics = async (req: Request, res: Response) => {
   try {
-    const totalTransactions = await prisma.order.count();
+    // Revenue dihitung dari total yang tersimpan di order, bukan harga buku saat ini.
+    // Order yang dibatalkan tidak dihitung.
+    const activeOrder = { status: { not: OrderStatus.CANCELLED } };
+    const [totalTransactions, orderAgg, itemAgg] = await Promise.all([
+      prisma.order.count({ where: activeOrder }),
+      prisma.order.aggregate({ where: activeOrder, _sum: { total_price: true } }),
+      prisma.orderItem.aggregate({ where: { order: activeOrder }, _sum: { quantity: true } }),
+    ]);
 
-    const orderItems = await prisma.orderItem.findMany({
-      include: { book: true },
-    });
-
-    let totalBooksSold = 0;
-    let totalRevenue = 0;
-
-    orderItems.forEach((item) => {
-      totalBooksSold += item.quantity;
-      totalRevenue += item.book.price * item.quantity;
-    });
+    const totalBooksSold = itemAgg._sum.quantity || 0;
+    const totalRevenue = orderAgg._sum.total_price || 0;
 
     return res.status(200).json(
       response(true, "Statistics fetched successfully", {
@@ -180,3 +191,106 @@ export const getStatistics = async (req: Request, res: Response) => {
     return res.status(500).json(response(false, "Internal server error"));
   }
 };
+
+/**
+ * @desc Update transaction status (admin)
+ * @route PATCH /transactions/:id/status
+ */
+export const updateTransactionStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const actorId = (req as any).user?.id;
+
+    const parsed = transactionStatusSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { status, note } = parsed.data;
+
+    const order = await prisma.$transaction(async (tx) => {
+      const before = await tx.order.findUnique({ where: { id }, select: { status: true } });
+      const updated = await transitionOrder(tx, id, status, actorId, note);
+      await recordAudit(
+        req,
+        {
+          action: "order.status_update",
+          entityType: "order",
+          entityId: id,
+          before,
+          after: { status: updated.status },
+          metadata: note ? { note } : undefined,
+        },
+        tx
+      );
+      return updated;
+    });
+
+    if (order.status === OrderStatus.CANCELLED)
+      queueRestockNotifications(order.items.map((i) => i.book_id));
+
+    return res.status(200).json(
+      response(true, "Transaction status updated successfully", {
+        order_id: order.id,
+        status: order.status,
+      })
+    );
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Cancel own unpaid transaction (stock is restored)
+ * @route POST /transactions/:id/cancel
+ */
+export const cancelTransaction = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user?.id;
+
+    const parsed = cancelTransactionSchema.safeParse(req.body || {});
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const order = await prisma.$transaction(async (tx) => {
+      const existing = await tx.order.findUnique({ where: { id } });
+      if (!existing || existing.user_id !== userId)
+        throw new HttpError(404, "Transaction not found");
+
+      if (!CUSTOMER_CANCELLABLE.includes(existing.status))
+        throw new HttpError(409, `Transaction with status ${existing.status} can no longer be cancelled`);
+
+      const cancelled = await transitionOrder(tx, id, OrderStatus.CANCELLED, userId, parsed.data.reason);
+      await recordAudit(
+        req,
+        {
+          action: "order.cancel",
+          entityType: "order",
+          entityId: id,
+          before: { status: existing.status },
+          after: { status: cancelled.status },
+          metadata: parsed.data.reason ? { reason: parsed.data.reason } : undefined,
+        },
+        tx
+      );
+      return cancelled;
+    });
+
+    queueRestockNotifications(order.items.map((i) => i.book_id));
+
+    return res.status(200).json(
+      response(true, "Transaction cancelled successfully", {
+        order_id: order.id,
+        status: order.status,
+      })
+    );
+  } catch (error) {
+    if (error instanceof HttpError)
+      return res.status(error.statusCode).json(response(false, error.message, error.data));
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
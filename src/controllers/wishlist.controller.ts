@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import { prisma } from "../utils/prisma";
+import { response } from "../utils/response";
+import { z } from "zod";
+
+// Validasi input pakai Zod
+export const wishlistSchema = z.object({
+  book_id: z.string().uuid(),
+});
+
+/**
+ * @desc Get wishlist with price and stock changes since each book was added
+ * @route GET /wishlist
+ */
+export const getWishlist = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const items = await prisma.wishlistItem.findMany({
+      where: { user_id: userId },
+      include: { book: { include: { genre: { select: { id: true, name: true } } } } },
+      orderBy: { created_at: "desc" },
+    });
+
+    const data = items.map(({ book, ...item }) => {
+      const available = !book.deleted_at;
+      const inStock = available && book.stock_quantity > 0;
+      return {
+        book_id: book.id,
+        title: book.title,
+        writer: book.writer,
+        genre: book.genre,
+        added_at: item.created_at,
+        available,
+        price: book.price,
+        price_at_add: item.price_at_add,
+        price_change: book.price - item.price_at_add,
+        stock_quantity: available ? book.stock_quantity : 0,
+        in_stock: inStock,
+        // Buku yang tadinya habis sekarang tersedia lagi
+        back_in_stock: inStock && !item.in_stock_at_add,
+      };
+    });
+
+    return res.status(200).json(response(true, "Wishlist fetched successfully", data));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Add book to wishlist
+ * @route POST /wishlist
+ */
+export const addToWishlist = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const parsed = wishlistSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json(response(false, "Validation error", parsed.error.flatten()));
+
+    const { book_id } = parsed.data;
+
+    const book = await prisma.book.findFirst({ where: { id: book_id, deleted_at: null } });
+    if (!book) return res.status(404).json(response(false, "Book not found"));
+
+    const existing = await prisma.wishlistItem.findUnique({
+      where: { user_id_book_id: { user_id: userId, book_id } },
+    });
+    if (existing) return res.status(409).json(response(false, "Book is already in your wishlist"));
+
+    const item = await prisma.wishlistItem.create({
+      data: {
+        user_id: userId,
+        book_id,
+        price_at_add: book.price,
+        in_stock_at_add: book.stock_quantity > 0,
+      },
+    });
+
+    return res.status(201).json(response(true, "Book added to wishlist", item));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
+
+/**
+ * @desc Remove book from wishlist
+ * @route DELETE /wishlist/:book_id
+ */
+export const removeFromWishlist = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { book_id } = req.params;
+
+    const { count } = await prisma.wishlistItem.deleteMany({ where: { user_id: userId, book_id } });
+    if (count === 0) return res.status(404).json(response(false, "Wishlist item not found"));
+
+    return res.status(200).json(response(true, "Book removed from wishlist"));
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json(response(false, "Internal server error"));
+  }
+};
@@ -0,0 +1,28 @@
+import dotenv from "dotenv";
+import { PrismaClient } from "@prisma/client";
+
+// App Express (middleware + routes) — dipisah supaya bisa dipakai script tanpa listen
+import app from "./app";
+
+import { startPaymentExpiryJob } from "./utils/payments";
+import { startAuditRetentionJob } from "./utils/audit";
+import { startIdempotencyCleanupJob } from "./utils/idempotency";
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+// 🚀 Start server
+const PORT = process.env.PORT || 8080;
+app.listen(PORT, () =>
+  console.log(`🚀 Server running on http://localhost:${PORT}`)
+);
+
+// ⏰ Batalkan order yang tidak dibayar sampai batas waktu
+startPaymentExpiryJob();
+
+// 🧹 Hapus audit log yang melewati masa retensi
+startAuditRetentionJob();
+
+// 🔑 Hapus Idempotency-Key yang sudah kedaluwarsa
+startIdempotencyCleanupJob();
@@ -1,10 +1,10 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { prisma } from "../utils/prisma";
 import { response } from "../utils/response";
+import { JWT_SECRET } from "../utils/config";
 
-const JWT_SECRET = process.env.JWT_SECRET || "defaultsecret";
-
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -13,8 +13,26 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
 
     const token = authHeader.split(" ")[1];
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (!decoded.sid) {
+      return res.status(401).json(response(false, "Invalid or expired token"));
+    }
+
+    // Sesi (family refresh token) harus masih aktif — logout langsung mematikan access token
+    const session = await prisma.refreshToken.findFirst({
+      where: {
+        family_id: decoded.sid,
+        user_id: decoded.id,
+        revoked_at: null,
+        user: { deleted_at: null },
+      },
+      include: { user: { select: { id: true, email: true, role: true } } },
+    });
+    if (!session) {
+      return res.status(401).json(response(false, "Session has been revoked"));
+    }
 
-    (req as any).user = decoded;
+    // Role diambil dari database, bukan dari token, supaya perubahan role langsung berlaku
+    (req as any).user = { ...session.user, sid: decoded.sid };
     next();
   } catch (error) {
     console.error(error);
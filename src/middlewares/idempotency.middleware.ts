@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from "express";
+import { response } from "../utils/response";
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+} from "../utils/idempotency";
+import { userKey } from "./rate-limit.middleware";
+
+const HEADER = "Idempotency-Key";
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Respons yang tidak boleh di-replay: error server, rate limit (429), dan
+ * error yang ditandai `retryable` (mis. konflik update bersamaan). Untuk ini
+ * key dilepas supaya retry dengan key yang sama benar-benar diproses ulang.
+ */
+const isTransient = (status: number, body: unknown) =>
+  status >= 500 || status === 429 || (body as any)?.data?.retryable === true;
+
+/**
+ * Header `Idempotency-Key` opsional untuk request tulis. Request pertama
+ * diproses normal dan responsnya disimpan; pengulangan dengan key & body yang
+ * sama mendapat respons tersimpan tanpa menjalankan handler lagi.
+ * Pasang setelah authMiddleware (key di-scope per user) dan setelah body parser.
+ */
+export const idempotencyMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(HEADER);
+  if (!key || !WRITE_METHODS.includes(req.method)) return next();
+
+  if (key.length > 255)
+    return res.status(400).json(response(false, `${HEADER} must be at most 255 characters`));
+
+  try {
+    const path = req.baseUrl + req.path;
+    const result = await beginIdempotentRequest({
+      scope: userKey(req),
+      key,
+      method: req.method,
+      path,
+      body: req.body,
+    });
+
+    if (result.state === "mismatch")
+      return res
+        .status(422)
+        .json(response(false, `${HEADER} has already been used with a different request`));
+
+    if (result.state === "in_flight") {
+      res.setHeader("Retry-After", 1);
+      return res
+        .status(409)
+        .json(response(false, `A request with this ${HEADER} is still being processed`));
+    }
+
+    if (result.state === "replay") {
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(result.record.response_status!).json(result.record.response_body);
+    }
+
+    // Simpan hasil handler saat ia memanggil res.json — tidak bergantung pada
+    // event socket, jadi client yang memutus koneksi lalu retry tetap dapat replay
+    const recordId = result.record.id;
+    let settled = false;
+    const settle = async (status: number, body: unknown) => {
+      if (settled) return;
+      settled = true;
+      try {
+        // Error server / respons sementara: jangan kunci key, client boleh coba lagi
+        if (isTransient(status, body)) await releaseIdempotentRequest(recordId);
+        else await completeIdempotentRequest(recordId, status, body);
+      } catch (error) {
+        // Gagal menyimpan → lepas key, jangan biarkan tertahan "in flight" sampai kedaluwarsa
+        console.error(error);
+        await releaseIdempotentRequest(recordId).catch((releaseError) => console.error(releaseError));
+      }
+    };
+
+    // Respons baru dikirim setelah tersimpan, supaya retry yang langsung menyusul
+    // mendapat replay, bukan 409 "still being processed"
+    const json = res.json.bind(res);
+    res.json = (payload: unknown) => {
+      settle(res.statusCode, payload)
+        .then(() => json(payload))
+        .catch(next);
+      return res;
+    };
+    // Handler yang menjawab tanpa res.json (mis. res.send/res.end)
+    res.on("finish", () => settle(res.statusCode, undefined));
+
+    next();
+  } catch (error) {
+    // Store bermasalah jangan sampai mematikan API — proses tanpa idempotensi
+    console.error(error);
+    next();
+  }
+};
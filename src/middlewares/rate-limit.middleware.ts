@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from "express";
+import { response } from "../utils/response";
+import { getRateLimitStore } from "../utils/rate-limit-store";
+
+interface RateLimitOptions {
+  windowMs: number;
+  limit: number;
+  // Nama limiter, supaya counter antar limiter tidak bercampur
+  prefix: string;
+  keyGenerator?: (req: Request) => string;
+  message?: string;
+}
+
+export const ipKey = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
+
+// Untuk route di belakang authMiddleware: limit per akun, fallback ke IP
+export const userKey = (req: Request) => (req as any).user?.id || ipKey(req);
+
+export const rateLimitMiddleware = ({
+  windowMs,
+  limit,
+  prefix,
+  keyGenerator = ipKey,
+  message = "Too many requests, please try again later",
+}: RateLimitOptions) => {
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = `${prefix}:${keyGenerator(req)}`;
+      const { count, resetAt } = await getRateLimitStore().increment(key, windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+      // Header standar (draft IETF RateLimit header fields)
+      res.setHeader("RateLimit-Limit", limit);
+      res.setHeader("RateLimit-Remaining", Math.max(0, limit - count));
+      res.setHeader("RateLimit-Reset", resetSeconds);
+
+      if (count > limit) {
+        res.setHeader("Retry-After", resetSeconds);
+        return res.status(429).json(response(false, message, { retry_after: resetSeconds }));
+      }
+
+      next();
+    } catch (error) {
+      // Store bermasalah jangan sampai mematikan API — lewati limiter
+      console.error(error);
+      next();
+    }
+  };
+  // Dibaca dokumen OpenAPI untuk menandai route yang bisa membalas 429
+  return Object.assign(middleware, { rateLimit: { windowMs, limit } });
+};
@@ -0,0 +1,14 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+const HEADER = "X-Request-Id";
+
+// Pakai id dari proxy/client kalau ada (supaya bisa dilacak lintas service), selain itu buat baru
+export const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(HEADER);
+  const requestId = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+
+  (req as any).requestId = requestId;
+  res.setHeader(HEADER, requestId);
+  next();
+};
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from "express";
+import { Role } from "@prisma/client";
+import { response } from "../utils/response";
+
+// Pasang setelah authMiddleware — role diambil authMiddleware dari database, bukan dari payload JWT
+// `roles` ditempel ke handler supaya dokumen OpenAPI bisa membaca akses route
+export const roleMiddleware = (...roles: Role[]) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json(response(false, "Unauthorized"));
+    }
+
+    if (!roles.includes(user.role)) {
+      return res.status(403).json(response(false, "Forbidden: insufficient permissions"));
+    }
+
+    next();
+  };
+  return Object.assign(middleware, { roles });
+};
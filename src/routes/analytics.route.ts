@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import {
+  getSalesOverTime,
+  getTopBooks,
+  getTopWriters,
+  getRevenueByGenre,
+  getSalesSummary,
+} from "../controllers/analytics.controller";
+
+const router = Router();
+
+router.use(authMiddleware, roleMiddleware(Role.ADMIN));
+
+router.get("/sales", getSalesOverTime);
+router.get("/top-books", getTopBooks);
+router.get("/top-writers", getTopWriters);
+router.get("/genres", getRevenueByGenre);
+router.get("/summary", getSalesSummary);
+
+export default router;
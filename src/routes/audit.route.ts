@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import { getAuditLogs } from "../controllers/audit.controller";
+
+const router = Router();
+
+router.use(authMiddleware, roleMiddleware(Role.ADMIN));
+
+router.get("/", getAuditLogs);
+
+export default router;
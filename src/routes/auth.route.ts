@@ -1,11 +1,45 @@
 import { Router } from "express";
-import { register, login, getMe } from "../controllers/auth.controller";
+import {
+  register,
+  login,
+  getMe,
+  refresh,
+  logout,
+  logoutAll,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  updateMe,
+  changePassword,
+  deleteMe,
+  getMyRecommendations,
+} from "../controllers/auth.controller";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { rateLimitMiddleware } from "../middlewares/rate-limit.middleware";
 
 const router = Router();
 
-router.post("/register", register);
-router.post("/login", login);
+const registerLimiter = rateLimitMiddleware({ prefix: "register", windowMs: 60 * 60 * 1000, limit: 10 });
+const loginLimiter = rateLimitMiddleware({ prefix: "login", windowMs: 15 * 60 * 1000, limit: 30 });
+// Endpoint yang mengirim email — dibatasi ketat per IP
+const mailLimiter = rateLimitMiddleware({ prefix: "auth-mail", windowMs: 60 * 60 * 1000, limit: 5 });
+
+router.post("/register", registerLimiter, register);
+router.post("/login", loginLimiter, login);
+router.post("/refresh", refresh);
+router.post("/verify-email", verifyEmail);
+// Link di email verifikasi langsung membuka endpoint ini
+router.get("/verify-email", verifyEmail);
+router.post("/verify-email/resend", mailLimiter, resendVerification);
+router.post("/forgot-password", mailLimiter, forgotPassword);
+router.post("/reset-password", loginLimiter, resetPassword);
+router.post("/logout", authMiddleware, logout);
+router.post("/logout-all", authMiddleware, logoutAll);
 router.get("/me", authMiddleware, getMe);
+router.patch("/me", authMiddleware, updateMe);
+router.post("/me/password", authMiddleware, changePassword);
+router.delete("/me", authMiddleware, deleteMe);
+router.get("/me/recommendations", authMiddleware, getMyRecommendations);
 
 export default router;
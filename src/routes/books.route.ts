@@ -1,23 +1,73 @@
-import { Router } from "express";
+import express, { Router } from "express";
+import { Role } from "@prisma/client";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import { rateLimitMiddleware, userKey } from "../middlewares/rate-limit.middleware";
+import { idempotencyMiddleware } from "../middlewares/idempotency.middleware";
 import {
   createBook,
   getBooks,
   getBookById,
   getBooksByGenre,
+  searchBooks,
+  importBooks,
+  exportBooks,
+  createStockAdjustment,
+  getStockMovements,
+  getStockReconciliation,
+  getLowStockBooks,
+  subscribeRestock,
+  unsubscribeRestock,
+  getRelated,
   updateBook,
   deleteBook,
+  getTrashedBooks,
+  restoreBook,
 } from "../controllers/books.controller";
+import {
+  getReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+  moderateReview,
+} from "../controllers/reviews.controller";
 
 const router = Router();
 
+const writeLimiter = rateLimitMiddleware({
+  prefix: "books-write",
+  windowMs: 60 * 1000,
+  limit: 60,
+  keyGenerator: userKey,
+});
+
 router.use(authMiddleware);
+// Body CSV untuk POST /books/import di-parse di sini, sebelum idempotency menghitung hash body
+router.use(express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }));
+router.use(idempotencyMiddleware);
 
-router.post("/", createBook);
+router.post("/", roleMiddleware(Role.ADMIN), writeLimiter, createBook);
 router.get("/", getBooks);
+router.post("/import", roleMiddleware(Role.ADMIN), writeLimiter, importBooks);
+router.get("/export", roleMiddleware(Role.ADMIN), exportBooks);
+router.get("/search", searchBooks);
+router.get("/stock-reconciliation", roleMiddleware(Role.ADMIN), getStockReconciliation);
+router.get("/low-stock", roleMiddleware(Role.ADMIN), getLowStockBooks);
+router.get("/trash", roleMiddleware(Role.ADMIN), getTrashedBooks);
 router.get("/genre/:genre_id", getBooksByGenre);
 router.get("/:id", getBookById);
-router.patch("/:id", updateBook);
-router.delete("/:id", deleteBook);
+router.patch("/:id", roleMiddleware(Role.ADMIN), writeLimiter, updateBook);
+router.delete("/:id", roleMiddleware(Role.ADMIN), writeLimiter, deleteBook);
+router.post("/:id/restore", roleMiddleware(Role.ADMIN), writeLimiter, restoreBook);
+router.post("/:id/stock-adjustments", roleMiddleware(Role.ADMIN), writeLimiter, createStockAdjustment);
+router.get("/:id/stock-movements", roleMiddleware(Role.ADMIN), getStockMovements);
+router.post("/:id/notify-me", subscribeRestock);
+router.delete("/:id/notify-me", unsubscribeRestock);
+router.get("/:id/related", getRelated);
+router.get("/:id/reviews", getReviews);
+router.post("/:id/reviews", writeLimiter, createReview);
+router.patch("/:id/reviews/:review_id", writeLimiter, updateReview);
+router.delete("/:id/reviews/:review_id", writeLimiter, deleteReview);
+router.patch("/:id/reviews/:review_id/moderation", roleMiddleware(Role.ADMIN), moderateReview);
 
 export default router;
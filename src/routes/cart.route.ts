@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { rateLimitMiddleware, userKey } from "../middlewares/rate-limit.middleware";
+import { idempotencyMiddleware } from "../middlewares/idempotency.middleware";
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  checkoutCart,
+} from "../controllers/cart.controller";
+
+const router = Router();
+
+// Prefix sama dengan POST /transactions supaya limit checkout dihitung bersama
+const checkoutLimiter = rateLimitMiddleware({
+  prefix: "checkout",
+  windowMs: 60 * 1000,
+  limit: 10,
+  keyGenerator: userKey,
+});
+
+router.use(authMiddleware);
+
+router.get("/items", getCart);
+router.post("/items", addCartItem);
+router.delete("/items", clearCart);
+router.patch("/items/:book_id", updateCartItem);
+router.delete("/items/:book_id", removeCartItem);
+// Checkout membuat order, jadi retry dari client juga perlu Idempotency-Key
+router.post("/checkout", idempotencyMiddleware, checkoutLimiter, checkoutCart);
+
+export default router;
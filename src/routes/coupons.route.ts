@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import {
+  createCoupon,
+  getCoupons,
+  getCouponById,
+  updateCoupon,
+  deleteCoupon,
+} from "../controllers/coupons.controller";
+
+const router = Router();
+
+router.use(authMiddleware, roleMiddleware(Role.ADMIN));
+
+router.post("/", createCoupon);
+router.get("/", getCoupons);
+router.get("/:id", getCouponById);
+router.patch("/:id", updateCoupon);
+router.delete("/:id", deleteCoupon);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getDocsPage, getOpenApiDocument } from "../controllers/docs.controller";
+
+const router = Router();
+
+// Publik — tanpa authMiddleware
+router.get("/openapi.json", getOpenApiDocument);
+router.get("/docs", getDocsPage);
+
+export default router;
@@ -1,21 +1,27 @@
 import { Router } from "express";
+import { Role } from "@prisma/client";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
 import {
   createGenre,
   getGenres,
   getGenreById,
   updateGenre,
   deleteGenre,
+  getTrashedGenres,
+  restoreGenre,
 } from "../controllers/genre.controller";
 
 const router = Router();
 
 router.use(authMiddleware);
 
-router.post("/", createGenre);
+router.post("/", roleMiddleware(Role.ADMIN), createGenre);
 router.get("/", getGenres);
+router.get("/trash", roleMiddleware(Role.ADMIN), getTrashedGenres);
 router.get("/:id", getGenreById);
-router.patch("/:id", updateGenre);
-router.delete("/:id", deleteGenre);
+router.patch("/:id", roleMiddleware(Role.ADMIN), updateGenre);
+router.delete("/:id", roleMiddleware(Role.ADMIN), deleteGenre);
+router.post("/:id/restore", roleMiddleware(Role.ADMIN), restoreGenre);
 
 export default router;
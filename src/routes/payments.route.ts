@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import { rateLimitMiddleware, userKey } from "../middlewares/rate-limit.middleware";
+import {
+  createPayment,
+  handlePaymentWebhook,
+  simulatePayment,
+  expireOrders,
+} from "../controllers/payments.controller";
+
+const router = Router();
+
+const paymentLimiter = rateLimitMiddleware({
+  prefix: "payments",
+  windowMs: 60 * 1000,
+  limit: 10,
+  keyGenerator: userKey,
+});
+
+// Dipanggil provider, bukan user — keasliannya dijamin signature, bukan token
+router.post("/webhook", handlePaymentWebhook);
+
+router.use(authMiddleware);
+
+router.post("/", paymentLimiter, createPayment);
+router.post("/expire", roleMiddleware(Role.ADMIN), expireOrders);
+// Hanya admin & hanya kalau ENABLE_FAKE_PAYMENTS=true — customer tidak boleh menandai order sendiri PAID
+router.post("/:id/simulate", roleMiddleware(Role.ADMIN), paymentLimiter, simulatePayment);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import {
+  createPromotion,
+  getPromotions,
+  updatePromotion,
+  deletePromotion,
+} from "../controllers/promotions.controller";
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// Customer boleh melihat promo (mis. untuk banner), hanya admin yang mengelola
+router.get("/", getPromotions);
+router.post("/", roleMiddleware(Role.ADMIN), createPromotion);
+router.patch("/:id", roleMiddleware(Role.ADMIN), updatePromotion);
+router.delete("/:id", roleMiddleware(Role.ADMIN), deletePromotion);
+
+export default router;
@@ -1,19 +1,41 @@
 import { Router } from "express";
+import { Role } from "@prisma/client";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { roleMiddleware } from "../middlewares/role.middleware";
+import { rateLimitMiddleware, userKey } from "../middlewares/rate-limit.middleware";
+import { idempotencyMiddleware } from "../middlewares/idempotency.middleware";
 import {
   createTransaction,
   getTransactions,
   getTransactionById,
   getStatistics,
+  updateTransactionStatus,
+  cancelTransaction,
 } from "../controllers/transactions.controller";
 
 const router = Router();
 
+const checkoutLimiter = rateLimitMiddleware({
+  prefix: "checkout",
+  windowMs: 60 * 1000,
+  limit: 10,
+  keyGenerator: userKey,
+});
+const writeLimiter = rateLimitMiddleware({
+  prefix: "transactions-write",
+  windowMs: 60 * 1000,
+  limit: 30,
+  keyGenerator: userKey,
+});
+
 router.use(authMiddleware);
+router.use(idempotencyMiddleware);
 
-router.post("/", authMiddleware, createTransaction);
-router.get("/", authMiddleware, getTransactions);
-router.get("/statistics", authMiddleware, getStatistics);
-router.get("/:id", authMiddleware, getTransactionById);
+router.post("/", checkoutLimiter, createTransaction);
+router.get("/", getTransactions);
+router.get("/statistics", roleMiddleware(Role.ADMIN), getStatistics);
+router.get("/:id", getTransactionById);
+router.patch("/:id/status", roleMiddleware(Role.ADMIN), writeLimiter, updateTransactionStatus);
+router.post("/:id/cancel", writeLimiter, cancelTransaction);
 
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { getWishlist, addToWishlist, removeFromWishlist } from "../controllers/wishlist.controller";
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get("/", getWishlist);
+router.post("/", addToWishlist);
+router.delete("/:book_id", removeFromWishlist);
+
+export default router;
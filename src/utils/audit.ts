@@ -0,0 +1,85 @@
+import { Request } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { AUDIT_RETENTION_DAYS } from "./config";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Tidak pernah masuk diff walaupun berubah
+const REDACTED_FIELDS = new Set(["password", "token_hash", "updated_at"]);
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+  // Untuk aksi tanpa req.user (mis. login, register)
+  actor?: { id: string; email: string } | null;
+}
+
+const toJsonValue = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+/**
+ * Bandingkan dua snapshot dan ambil field yang berubah saja.
+ * Create: before kosong; delete: after kosong — semua field tercatat.
+ */
+export const diffRecords = (
+  before?: Record<string, unknown> | null,
+  after?: Record<string, unknown> | null
+) => {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (REDACTED_FIELDS.has(key)) continue;
+    const from = toJsonValue(before?.[key]);
+    const to = toJsonValue(after?.[key]);
+    // Relasi/objek bersarang tidak dibandingkan, cukup kolom skalar
+    if ((from !== null && typeof from === "object") || (to !== null && typeof to === "object")) continue;
+    if (from !== to) diff[key] = { from, to };
+  }
+
+  return diff;
+};
+
+/**
+ * Tulis satu baris audit. Aktor, request id & IP diambil dari request;
+ * job latar belakang (tanpa request) mengirim `null`.
+ * Kalau perubahan terjadi di dalam prisma.$transaction, kirim `tx` supaya
+ * audit ikut rollback bersama perubahannya.
+ */
+export const recordAudit = async (req: Request | null, entry: AuditEntry, db: Db = prisma) => {
+  const user = entry.actor !== undefined ? entry.actor : (req as any)?.user;
+  const diff = entry.before || entry.after ? diffRecords(entry.before, entry.after) : undefined;
+
+  await db.auditLog.create({
+    data: {
+      actor_id: user?.id ?? null,
+      actor_email: user?.email ?? null,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      diff: diff as Prisma.InputJsonValue | undefined,
+      metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+      request_id: (req as any)?.requestId ?? null,
+      ip: req ? req.ip || req.socket.remoteAddress || null : null,
+    },
+  });
+};
+
+// Hapus audit log yang melewati masa retensi; mengembalikan jumlah baris terhapus
+export const purgeExpiredAuditLogs = async (now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.auditLog.deleteMany({ where: { created_at: { lt: cutoff } } });
+  return count;
+};
+
+export const startAuditRetentionJob = (intervalMs = 24 * 60 * 60 * 1000) => {
+  const run = () => purgeExpiredAuditLogs().catch((error) => console.error(error));
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,75 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { checkPagination, paginationFields } from "./pagination";
+
+// Field yang boleh dipakai untuk sorting — selain ini ditolak 400
+export const SORTABLE_BOOK_FIELDS = [
+  "title",
+  "writer",
+  "publisher",
+  "price",
+  "publication_year",
+  "stock_quantity",
+  "average_rating",
+  "review_count",
+  "created_at",
+] as const;
+
+// Terima `?genre=a,b` maupun `?genre=a&genre=b`
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) =>
+      (Array.isArray(value) ? value : String(value).split(","))
+        .map((v) => String(v).trim())
+        .filter(Boolean),
+    z.array(item).min(1)
+  );
+
+const booleanParam = z.enum(["true", "false"]).transform((v) => v === "true");
+
+export const bookQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).optional(),
+    genre: listParam(z.string().uuid({ message: "Invalid genre id" })).optional(),
+    writer: z.string().trim().min(1).optional(),
+    publisher: z.string().trim().min(1).optional(),
+    min_price: z.coerce.number().int().nonnegative().optional(),
+    max_price: z.coerce.number().int().nonnegative().optional(),
+    year_from: z.coerce.number().int().optional(),
+    year_to: z.coerce.number().int().optional(),
+    in_stock: booleanParam.optional(),
+    min_rating: z.coerce.number().min(0).max(5).optional(),
+    orderBy: z.enum(SORTABLE_BOOK_FIELDS).default("title"),
+    order: z.enum(["asc", "desc"]).default("asc"),
+  })
+  .merge(paginationFields)
+  .refine((q) => q.min_price === undefined || q.max_price === undefined || q.min_price <= q.max_price, {
+    message: "min_price must not be greater than max_price",
+    path: ["min_price"],
+  })
+  .refine((q) => q.year_from === undefined || q.year_to === undefined || q.year_from <= q.year_to, {
+    message: "year_from must not be greater than year_to",
+    path: ["year_from"],
+  })
+  .superRefine(checkPagination);
+
+export type BookQuery = z.infer<typeof bookQuerySchema>;
+
+const insensitive = (value: string) => ({ contains: value, mode: Prisma.QueryMode.insensitive });
+
+// Ubah query yang sudah tervalidasi jadi filter Prisma (hanya buku yang belum dihapus)
+export const buildBookWhere = (query: BookQuery): Prisma.BookWhereInput => ({
+  deleted_at: null,
+  genre: { deleted_at: null },
+  OR: query.search
+    ? [{ title: insensitive(query.search) }, { writer: insensitive(query.search) }]
+    : undefined,
+  // Cocok dengan genre mana pun yang ditag ke buku, bukan hanya genre utama
+  genres: query.genre ? { some: { genre_id: { in: query.genre } } } : undefined,
+  writer: query.writer ? insensitive(query.writer) : undefined,
+  publisher: query.publisher ? insensitive(query.publisher) : undefined,
+  price: { gte: query.min_price, lte: query.max_price },
+  publication_year: { gte: query.year_from, lte: query.year_to },
+  stock_quantity: query.in_stock ? { gt: 0 } : undefined,
+  average_rating: query.min_rating !== undefined ? { gte: query.min_rating } : undefined,
+});
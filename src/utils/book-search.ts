@@ -0,0 +1,194 @@
+import { Request } from "express";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { checkPagination, paginate, paginationFields } from "./pagination";
+
+// Rentang harga untuk facet (batas atas eksklusif, null = tanpa batas)
+export const PRICE_BUCKETS = [
+  { key: "under_50k", min: 0, max: 50000 },
+  { key: "50k_100k", min: 50000, max: 100000 },
+  { key: "100k_200k", min: 100000, max: 200000 },
+  { key: "200k_plus", min: 200000, max: null },
+] as const;
+
+// Ambang word_similarity (pg_trgm) untuk toleransi typo pada judul
+const FUZZY_THRESHOLD = 0.3;
+
+export const bookSearchSchema = z
+  .object({
+    q: z.string().trim().min(1, "Search query is required").max(200),
+    genre: z.string().uuid({ message: "Invalid genre id" }).optional(),
+    min_price: z.coerce.number().int().nonnegative().optional(),
+    max_price: z.coerce.number().int().nonnegative().optional(),
+  })
+  .merge(paginationFields)
+  .superRefine(checkPagination)
+  .refine((q) => q.min_price === undefined || q.max_price === undefined || q.min_price <= q.max_price, {
+    message: "min_price must not be greater than max_price",
+    path: ["min_price"],
+  });
+
+export type BookSearchQuery = z.infer<typeof bookSearchSchema>;
+
+/**
+ * "machine lea" → "machine:* & lea:*" — setiap kata dicocokkan sebagai prefix
+ * (untuk autocomplete). Hanya huruf/angka yang dipakai, jadi aman untuk to_tsquery.
+ */
+export const toPrefixTsQuery = (q: string) => {
+  const terms = q.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map((t) => `${t}:*`).join(" & ") : null;
+};
+
+interface SearchRow {
+  id: string;
+  title: string;
+  writer: string;
+  publisher: string;
+  publication_year: number;
+  price: number;
+  stock_quantity: number;
+  genre_id: string;
+  genre_name: string;
+  score: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+// Escape HTML di SQL sebelum ts_headline: hasil highlight dirender client sebagai HTML,
+// jadi satu-satunya markup yang boleh keluar adalah <mark> dari ts_headline sendiri
+const escapeHtml = (text: Prisma.Sql) =>
+  Prisma.sql`replace(replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`;
+
+/**
+ * Cari buku dengan PostgreSQL full-text search + pg_trgm.
+ * Butuh function & index dari manual-migrations/002_book_search.sql.
+ * Nama genre yang dicocokkan dan facet genre memakai semua genre buku (BookGenre),
+ * sama dengan filter `genre`; satu buku bisa terhitung di beberapa facet genre.
+ * Facet dihitung dari semua hasil yang cocok dengan teks (sebelum filter
+ * genre/harga), supaya client tetap bisa menampilkan pilihan lain.
+ * `highlight.title` & `highlight.snippet` sudah di-escape, aman dipasang sebagai HTML.
+ * Diurutkan menurut skor; pagination (offset/cursor) dan meta lewat paginate().
+ */
+export const runBookSearch = async (req: Request, query: BookSearchQuery, tsQuery: string) => {
+  const document = Prisma.sql`book_search_document(b."title", b."writer", b."publisher", b."description")`;
+  const tsq = Prisma.sql`to_tsquery('simple', ${tsQuery}::text)`;
+  const genreDocument = Prisma.sql`to_tsvector('simple', coalesce(gn.names, g."name"))`;
+
+  const matches = Prisma.sql`
+    SELECT
+      b."id", b."title", b."writer", b."publisher", b."publication_year",
+      b."price", b."stock_quantity", b."description", b."genre_id", g."name" AS genre_name,
+      (ts_rank(${document} || setweight(${genreDocument}, 'B'), ${tsq})
+        + word_similarity(${query.q}::text, b."title") * 0.5)::float8 AS score
+    FROM "Book" b
+    -- Buku dengan genre utama di trash disembunyikan, sama seperti buildBookWhere di GET /books
+    JOIN "Genre" g ON g."id" = b."genre_id" AND g."deleted_at" IS NULL
+    -- Nama semua genre buku (utama + tambahan dari BookGenre)
+    LEFT JOIN LATERAL (
+      SELECT string_agg(bg_g."name", ' ') AS names
+      FROM "BookGenre" bg
+      JOIN "Genre" bg_g ON bg_g."id" = bg."genre_id" AND bg_g."deleted_at" IS NULL
+      WHERE bg."book_id" = b."id"
+    ) gn ON TRUE
+    WHERE b."deleted_at" IS NULL
+      AND (
+        ${document} @@ ${tsq}
+        OR ${genreDocument} @@ ${tsq}
+        OR word_similarity(${query.q}::text, b."title") > ${FUZZY_THRESHOLD}
+      )
+  `;
+
+  const filters: Prisma.Sql[] = [Prisma.sql`TRUE`];
+  if (query.genre)
+    filters.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "BookGenre" bg WHERE bg."book_id" = m."id" AND bg."genre_id" = ${query.genre})`
+    );
+  if (query.min_price !== undefined) filters.push(Prisma.sql`m."price" >= ${query.min_price}`);
+  if (query.max_price !== undefined) filters.push(Prisma.sql`m."price" <= ${query.max_price}`);
+  const where = Prisma.join(filters, " AND ");
+
+  // Satu kolom per bucket, alias = key bucket (key konstan, aman untuk Prisma.raw)
+  const bucketCounts = Prisma.join(
+    PRICE_BUCKETS.map((bucket) => {
+      const alias = Prisma.raw(`"${bucket.key}"`);
+      return bucket.max === null
+        ? Prisma.sql`COUNT(*) FILTER (WHERE m."price" >= ${bucket.min})::int AS ${alias}`
+        : Prisma.sql`COUNT(*) FILTER (WHERE m."price" >= ${bucket.min} AND m."price" < ${bucket.max})::int AS ${alias}`;
+    }),
+    ", "
+  );
+
+  const [page, genreFacets, priceFacets] = await Promise.all([
+    paginate(req, query, { field: "score", order: "desc" }, {
+      findMany: (args, keyset) => {
+        const direction = Prisma.raw(keyset.order === "asc" ? "ASC" : "DESC");
+        const after = keyset.after
+          ? Prisma.sql`AND (m.score, m."id") ${Prisma.raw(keyset.order === "asc" ? ">" : "<")}
+              (${keyset.after.value}::float8, ${keyset.after.id})`
+          : Prisma.empty;
+        return prisma.$queryRaw<SearchRow[]>`
+          WITH matches AS (${matches})
+          SELECT
+            m."id", m."title", m."writer", m."publisher", m."publication_year",
+            m."price", m."stock_quantity", m."genre_id", m.genre_name, m.score,
+            ts_headline('simple', ${escapeHtml(Prisma.sql`m."title"`)}, ${tsq},
+              'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+            ts_headline('simple', ${escapeHtml(Prisma.sql`coalesce(m."description", '')`)}, ${tsq},
+              'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2') AS snippet
+          FROM matches m
+          WHERE ${where} ${after}
+          ORDER BY m.score ${direction}, m."id" ${direction}
+          LIMIT ${args.take} OFFSET ${args.skip ?? 0}
+        `;
+      },
+      count: async () => {
+        const [row] = await prisma.$queryRaw<{ total: number }[]>`
+          WITH matches AS (${matches})
+          SELECT COUNT(*)::int AS total FROM matches m WHERE ${where}
+        `;
+        return row?.total || 0;
+      },
+    }),
+    prisma.$queryRaw<{ genre_id: string; genre_name: string; count: number }[]>`
+      WITH matches AS (${matches})
+      SELECT g."id" AS genre_id, g."name" AS genre_name, COUNT(*)::int AS count
+      FROM matches m
+      JOIN "BookGenre" bg ON bg."book_id" = m."id"
+      JOIN "Genre" g ON g."id" = bg."genre_id" AND g."deleted_at" IS NULL
+      GROUP BY g."id", g."name"
+      ORDER BY count DESC, g."name" ASC
+    `,
+    prisma.$queryRaw<Record<string, number>[]>`
+      WITH matches AS (${matches})
+      SELECT ${bucketCounts} FROM matches m
+    `,
+  ]);
+
+  const priceRow = priceFacets[0] || {};
+
+  return {
+    data: page.data.map((r) => ({
+      id: r.id,
+      title: r.title,
+      writer: r.writer,
+      publisher: r.publisher,
+      publication_year: r.publication_year,
+      price: r.price,
+      stock_quantity: r.stock_quantity,
+      genre: { id: r.genre_id, name: r.genre_name },
+      score: Number(r.score),
+      highlight: { title: r.title_highlight, snippet: r.snippet },
+    })),
+    facets: {
+      genres: genreFacets.map((f) => ({ id: f.genre_id, name: f.genre_name, count: f.count })),
+      price: PRICE_BUCKETS.map((bucket) => ({
+        key: bucket.key,
+        min: bucket.min,
+        max: bucket.max,
+        count: priceRow[bucket.key] || 0,
+      })),
+    },
+    meta: page.meta,
+  };
+};
@@ -0,0 +1,23 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Samakan cart semua user dengan kondisi buku terbaru: buku dihapus → item
+ * dibuang, stok turun di bawah jumlah di cart → jumlah dipotong ke stok.
+ * Dipanggil dari books controller saat buku dihapus / stok diubah.
+ */
+export const syncCartsForBook = async (
+  bookId: string,
+  stock: number | null,
+  db: Prisma.TransactionClient = prisma
+) => {
+  if (stock === null || stock <= 0) {
+    await db.cartItem.deleteMany({ where: { book_id: bookId } });
+    return;
+  }
+
+  await db.cartItem.updateMany({
+    where: { book_id: bookId, quantity: { gt: stock } },
+    data: { quantity: stock },
+  });
+};
@@ -0,0 +1,158 @@
+import { OrderStatus, Prisma, StockMovementType } from "@prisma/client";
+import { HttpError } from "./errors";
+import { applyDiscounts } from "./discounts";
+import { PAYMENT_TIMEOUT_MINUTES } from "./config";
+import { recordMovement } from "./stock-ledger";
+
+export interface CheckoutItem {
+  book_id: string;
+  quantity: number;
+}
+
+/**
+ * Buat order + kurangi stok. Harus dipanggil di dalam prisma.$transaction
+ * supaya semuanya all-or-nothing. Dipakai POST /transactions dan checkout cart.
+ */
+export const placeOrder = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  items: CheckoutItem[],
+  couponCode?: string
+) => {
+  // Gabungkan item dengan book_id yang sama, urutkan id supaya urutan lock baris
+  // selalu konsisten antar checkout (menghindari deadlock)
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.book_id, (quantities.get(item.book_id) || 0) + item.quantity);
+  }
+  const bookIds = [...quantities.keys()].sort();
+
+  const books = await tx.book.findMany({
+    where: { id: { in: bookIds }, deleted_at: null },
+    select: { id: true, title: true, price: true, genres: { select: { genre_id: true } } },
+  });
+  const missing = bookIds.find((id) => !books.some((b) => b.id === id));
+  if (missing) throw new HttpError(404, `Book with ID ${missing} not found`);
+
+  // Decrement bersyarat: UPDATE hanya berhasil kalau stok masih cukup,
+  // dan baris ter-lock sampai transaksi selesai sehingga oversell tidak mungkin
+  const shortIds: string[] = [];
+  for (const bookId of bookIds) {
+    const { count } = await tx.book.updateMany({
+      where: { id: bookId, deleted_at: null, stock_quantity: { gte: quantities.get(bookId)! } },
+      data: { stock_quantity: { decrement: quantities.get(bookId)! } },
+    });
+    if (count === 0) shortIds.push(bookId);
+  }
+
+  if (shortIds.length > 0) {
+    const shortBooks = await tx.book.findMany({
+      where: { id: { in: shortIds } },
+      select: { id: true, title: true, stock_quantity: true },
+    });
+    throw new HttpError(409, "Insufficient stock", {
+      items: shortBooks.map((b) => ({
+        book_id: b.id,
+        title: b.title,
+        requested: quantities.get(b.id),
+        available: b.stock_quantity,
+      })),
+    });
+  }
+
+  // Snapshot judul, harga & diskon saat pembelian, supaya perubahan harga buku
+  // atau promo tidak mengubah total order lama
+  const titles = new Map(books.map((b) => [b.id, b.title]));
+  const { lines, coupon } = await applyDiscounts(
+    tx,
+    userId,
+    books.map((b) => ({
+      book_id: b.id,
+      genre_ids: b.genres.map((g) => g.genre_id),
+      unit_price: b.price,
+      quantity: quantities.get(b.id)!,
+    })),
+    couponCode
+  );
+  const subtotalPrice = lines.reduce((sum, l) => sum + l.unit_price * l.quantity, 0);
+  const discountTotal = lines.reduce((sum, l) => sum + l.discount, 0);
+
+  const order = await tx.order.create({
+    data: {
+      user_id: userId,
+      subtotal_price: subtotalPrice,
+      discount_total: discountTotal,
+      total_price: subtotalPrice - discountTotal,
+      expires_at: new Date(Date.now() + PAYMENT_TIMEOUT_MINUTES * 60 * 1000),
+      items: {
+        create: lines.map((l) => ({
+          book_id: l.book_id,
+          title: titles.get(l.book_id)!,
+          unit_price: l.unit_price,
+          quantity: l.quantity,
+          discount: l.discount,
+          promotion_id: l.promotion_id,
+        })),
+      },
+      status_history: { create: { to_status: OrderStatus.PENDING, actor_id: userId } },
+      coupon_redemption: coupon
+        ? {
+            create: {
+              coupon_id: coupon.id,
+              user_id: userId,
+              code: coupon.code,
+              discount: coupon.discount,
+            },
+          }
+        : undefined,
+    },
+    include: { items: true, coupon_redemption: true },
+  });
+
+  // Catat penjualan ke ledger stok (baris buku masih ter-lock, saldo konsisten)
+  const balances = await tx.book.findMany({
+    where: { id: { in: bookIds } },
+    select: { id: true, stock_quantity: true },
+  });
+  for (const b of balances) {
+    await recordMovement(
+      tx,
+      {
+        bookId: b.id,
+        type: StockMovementType.SALE,
+        quantity: -quantities.get(b.id)!,
+        actorId: userId,
+        orderId: order.id,
+      },
+      b.stock_quantity
+    );
+  }
+
+  return order;
+};
+
+type PlacedOrder = Awaited<ReturnType<typeof placeOrder>>;
+
+// Bentuk response checkout yang sama untuk semua endpoint
+export const formatReceipt = (order: PlacedOrder) => ({
+  order_id: order.id,
+  user_id: order.user_id,
+  status: order.status,
+  expires_at: order.expires_at,
+  subtotal_price: order.subtotal_price,
+  discount_total: order.discount_total,
+  total_price: order.total_price,
+  coupon: order.coupon_redemption
+    ? { code: order.coupon_redemption.code, discount: order.coupon_redemption.discount }
+    : null,
+  items: order.items.map((i) => ({
+    book_id: i.book_id,
+    title: i.title,
+    quantity: i.quantity,
+    price_each: i.unit_price,
+    subtotal: i.unit_price * i.quantity,
+    discount: i.discount,
+    total: i.unit_price * i.quantity - i.discount,
+    promotion_id: i.promotion_id,
+  })),
+});
@@ -0,0 +1,52 @@
+import dotenv from "dotenv";
+import crypto from "crypto";
+
+// Load .env di sini juga: modul ini di-import (lewat routes) sebelum dotenv.config() di index.ts jalan
+dotenv.config();
+
+const WEAK_SECRETS = ["defaultsecret", "secret", "changeme", "(disesuaikan)"];
+
+const requireSecret = (name: string) => {
+  const value = process.env[name];
+  if (!value || value.length < 32 || WEAK_SECRETS.includes(value)) {
+    throw new Error(
+      `${name} must be set to a random string of at least 32 characters — refusing to start`
+    );
+  }
+  return value;
+};
+
+export const JWT_SECRET = requireSecret("JWT_SECRET");
+
+// Access token sengaja pendek; sesi diperpanjang lewat refresh token
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+// Base URL API ini. Link verifikasi email mengarah ke GET /auth/verify-email di sini
+export const APP_URL = process.env.APP_URL || `http://localhost:${process.env.PORT || 8080}`;
+
+// Halaman frontend berisi form password baru; link reset di email = `${PASSWORD_RESET_URL}?token=...`,
+// lalu halaman itu memanggil POST /auth/reset-password. API tidak punya GET untuk reset
+export const PASSWORD_RESET_URL =
+  process.env.PASSWORD_RESET_URL || "http://localhost:3000/reset-password";
+
+// true = user belum verifikasi email tidak bisa login
+export const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+
+// Order PENDING yang belum dibayar selama ini dibatalkan & stoknya dikembalikan
+export const PAYMENT_TIMEOUT_MINUTES = Number(process.env.PAYMENT_TIMEOUT_MINUTES) || 30;
+
+// Secret HMAC webhook fake provider. Kalau kosong dibuat acak per proses —
+// cukup untuk simulasi lokal karena penanda tangan & pemeriksanya proses yang sama
+export const PAYMENT_WEBHOOK_SECRET =
+  process.env.PAYMENT_WEBHOOK_SECRET || crypto.randomBytes(32).toString("hex");
+
+// Opt-in eksplisit untuk POST /payments/:id/simulate (fake provider). Jangan
+// aktifkan di deployment sungguhan — endpoint ini bisa menandai order PAID tanpa bayar
+export const ENABLE_FAKE_PAYMENTS = process.env.ENABLE_FAKE_PAYMENTS === "true";
+
+// Baris audit log lebih tua dari ini dihapus oleh job retensi harian
+export const AUDIT_RETENTION_DAYS = Number(process.env.AUDIT_RETENTION_DAYS) || 365;
+
+// Berapa lama Idempotency-Key disimpan; setelah itu key yang sama dianggap baru
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
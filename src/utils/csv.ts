@@ -0,0 +1,98 @@
+import { Response } from "express";
+
+// Parser/serializer CSV sederhana (RFC 4180): field ber-quote, "" sebagai
+// escape quote, newline di dalam quote, dan line ending CRLF/LF
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Buang BOM dari file hasil Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Abaikan baris kosong (mis. newline di akhir file)
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+};
+
+/**
+ * Guard formula injection: string yang diawali =, +, -, @ (juga yang sudah
+ * diawali ' sebelum karakter itu) diberi prefix ' saat export, sama seperti
+ * konvensi "teks literal" di spreadsheet. unguardFormula membuang tepat satu '
+ * itu lagi, jadi export → import mengembalikan nilai aslinya (mis. judul "-Foo").
+ */
+const FORMULA_PATTERN = /^'*[=+\-@]/;
+
+const guardFormula = (text: string) => (FORMULA_PATTERN.test(text) ? `'${text}` : text);
+
+export const unguardFormula = (text: string) =>
+  text.startsWith("'") && FORMULA_PATTERN.test(text) ? text.slice(1) : text;
+
+// Baris pertama = header → array object per baris (guard formula dari export dibuang)
+export const csvToObjects = (text: string) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((values) =>
+    Object.fromEntries(keys.map((key, i) => [key, unguardFormula(values[i] ?? "")]))
+  );
+};
+
+const escapeField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Cegah formula injection saat file dibuka di spreadsheet
+  if (typeof value === "string") text = guardFormula(text);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]) => values.map(escapeField).join(",") + "\r\n";
+
+// Kirim array object sebagai file CSV (kolom mengikuti urutan `columns`)
+export const sendCsv = (
+  res: Response,
+  filename: string,
+  columns: string[],
+  rows: Record<string, unknown>[]
+) => {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.status(200).send(toCsvRow(columns) + rows.map((r) => toCsvRow(columns.map((c) => r[c]))).join(""));
+};
@@ -0,0 +1,185 @@
+import { DiscountType, Prisma } from "@prisma/client";
+import { HttpError } from "./errors";
+
+export interface PricedLine {
+  book_id: string;
+  genre_ids: string[]; // semua genre yang ditag ke buku
+  unit_price: number;
+  quantity: number;
+}
+
+export interface DiscountedLine extends PricedLine {
+  discount: number;
+  promotion_id: string | null;
+}
+
+export interface AppliedCoupon {
+  id: string;
+  code: string;
+  discount: number;
+}
+
+// Filter "sedang berlaku" untuk Coupon maupun Promotion
+export const activeAt = (now: Date) => ({
+  is_active: true,
+  AND: [
+    { OR: [{ starts_at: null }, { starts_at: { lte: now } }] },
+    { OR: [{ ends_at: null }, { ends_at: { gt: now } }] },
+  ],
+});
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const percentOf = (amount: number, percent: number) => Math.floor((amount * percent) / 100);
+
+// Promo FIXED dihitung per eksemplar, PERCENTAGE dari total baris
+const promotionDiscount = (
+  promo: { type: DiscountType; value: number },
+  line: PricedLine
+) =>
+  promo.type === DiscountType.PERCENTAGE
+    ? percentOf(line.unit_price * line.quantity, promo.value)
+    : Math.min(promo.value, line.unit_price) * line.quantity;
+
+/**
+ * Bagi potongan kupon ke baris-baris yang eligible sebanding dengan nilainya,
+ * supaya diskon per baris selalu terjumlah tepat ke total potongan kupon.
+ */
+const allocate = (total: number, capacities: number[]) => {
+  const base = capacities.reduce((sum, c) => sum + c, 0);
+  const shares = capacities.map((c) => (base === 0 ? 0 : Math.floor((total * c) / base)));
+  let leftover = total - shares.reduce((sum, s) => sum + s, 0);
+  for (let i = 0; leftover > 0 && i < shares.length; i++) {
+    const extra = Math.min(leftover, capacities[i] - shares[i]);
+    shares[i] += extra;
+    leftover -= extra;
+  }
+  return shares;
+};
+
+/**
+ * Hitung diskon checkout: promo genre otomatis dulu (ambil yang paling besar
+ * per baris), lalu kupon dari sisa harga. Pemakaian kupon langsung dikunci &
+ * dihitung di sini, jadi harus dipanggil di dalam prisma.$transaction.
+ */
+export const applyDiscounts = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  lines: PricedLine[],
+  couponCode?: string
+): Promise<{ lines: DiscountedLine[]; coupon: AppliedCoupon | null }> => {
+  const now = new Date();
+
+  const promotions = await tx.promotion.findMany({
+    where: { ...activeAt(now), genre_id: { in: [...new Set(lines.flatMap((l) => l.genre_ids))] } },
+  });
+
+  const discounted: DiscountedLine[] = lines.map((line) => {
+    let best = { discount: 0, promotion_id: null as string | null };
+    for (const promo of promotions) {
+      if (!line.genre_ids.includes(promo.genre_id)) continue;
+      const discount = promotionDiscount(promo, line);
+      if (discount > best.discount) best = { discount, promotion_id: promo.id };
+    }
+    return { ...line, ...best };
+  });
+
+  if (!couponCode) return { lines: discounted, coupon: null };
+
+  const code = normalizeCouponCode(couponCode);
+  const coupon = await tx.coupon.findUnique({
+    where: { code },
+    include: { genres: { select: { id: true } }, books: { select: { id: true } } },
+  });
+  if (!coupon || !coupon.is_active) throw new HttpError(400, "Invalid coupon code");
+
+  if ((coupon.starts_at && coupon.starts_at > now) || (coupon.ends_at && coupon.ends_at <= now))
+    throw new HttpError(400, "Coupon is not valid at this time");
+
+  const remaining = (l: DiscountedLine) => l.unit_price * l.quantity - l.discount;
+
+  const orderValue = discounted.reduce((sum, l) => sum + remaining(l), 0);
+  if (orderValue < coupon.min_order_value)
+    throw new HttpError(400, `Minimum order value for this coupon is ${coupon.min_order_value}`, {
+      min_order_value: coupon.min_order_value,
+      order_value: orderValue,
+    });
+
+  // Tanpa scope = semua buku; kalau ada, cukup cocok salah satu (genre ATAU buku)
+  const scoped = coupon.genres.length > 0 || coupon.books.length > 0;
+  const eligible = discounted.filter(
+    (l) =>
+      !scoped ||
+      coupon.genres.some((g) => l.genre_ids.includes(g.id)) ||
+      coupon.books.some((b) => b.id === l.book_id)
+  );
+  const eligibleValue = eligible.reduce((sum, l) => sum + remaining(l), 0);
+  if (eligibleValue === 0)
+    throw new HttpError(400, "Coupon does not apply to any item in this order");
+
+  // Increment bersyarat sekaligus mengunci baris kupon: checkout bersamaan dengan
+  // kupon yang sama antre di sini, jadi hitungan per user di bawah selalu akurat
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      ...(coupon.max_uses !== null && { used_count: { lt: coupon.max_uses } }),
+    },
+    data: { used_count: { increment: 1 } },
+  });
+  if (count === 0) throw new HttpError(409, "Coupon usage limit reached");
+
+  if (coupon.max_uses_per_user !== null) {
+    const used = await tx.couponRedemption.count({
+      where: { coupon_id: coupon.id, user_id: userId, released_at: null },
+    });
+    if (used >= coupon.max_uses_per_user)
+      throw new HttpError(409, "You have already used this coupon the maximum number of times");
+  }
+
+  const couponDiscount =
+    coupon.type === DiscountType.PERCENTAGE
+      ? percentOf(eligibleValue, coupon.value)
+      : Math.min(coupon.value, eligibleValue);
+
+  const shares = allocate(couponDiscount, eligible.map(remaining));
+  eligible.forEach((line, i) => {
+    line.discount += shares[i];
+  });
+
+  return {
+    lines: discounted,
+    coupon: { id: coupon.id, code: coupon.code, discount: couponDiscount },
+  };
+};
+
+/**
+ * Kembalikan jatah pemakaian kupon saat order dibatalkan.
+ * Harus dipanggil di dalam transaksi yang sama dengan pembatalan.
+ */
+export const releaseCoupon = async (tx: Prisma.TransactionClient, orderId: string) => {
+  const redemption = await tx.couponRedemption.findUnique({ where: { order_id: orderId } });
+  if (!redemption || redemption.released_at) return;
+
+  await tx.couponRedemption.update({
+    where: { id: redemption.id },
+    data: { released_at: new Date() },
+  });
+  await tx.coupon.update({
+    where: { id: redemption.coupon_id },
+    data: { used_count: { decrement: 1 } },
+  });
+};
+
+// Aturan yang melibatkan beberapa field; dicek setelah data lama & baru digabung
+export const discountRuleError = (input: {
+  type: DiscountType;
+  value: number;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+}) => {
+  if (input.type === DiscountType.PERCENTAGE && input.value > 100)
+    return "Percentage discount cannot exceed 100";
+  if (input.starts_at && input.ends_at && input.ends_at <= input.starts_at)
+    return "ends_at must be after starts_at";
+  return null;
+};
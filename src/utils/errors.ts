@@ -0,0 +1,13 @@
+// Error dengan status HTTP — bisa di-throw dari dalam prisma.$transaction
+// lalu ditangkap controller, atau diteruskan ke errorMiddleware lewat next(err)
+export class HttpError extends Error {
+  statusCode: number;
+  data?: any;
+
+  constructor(statusCode: number, message: string, data?: any) {
+    super(message);
+    this.name = "HttpError";
+    this.statusCode = statusCode;
+    this.data = data;
+  }
+}
@@ -0,0 +1,119 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // buang tanda diakritik (é → e)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "genre";
+
+// Slug dari nama; kalau sudah dipakai genre aktif, tambah akhiran -2, -3, dst.
+export const uniqueGenreSlug = async (name: string, db: Db = prisma) => {
+  const base = slugify(name);
+  const taken = await db.genre.findMany({
+    where: { slug: { startsWith: base }, deleted_at: null },
+    select: { slug: true },
+  });
+  const slugs = new Set(taken.map((g) => g.slug));
+
+  let slug = base;
+  for (let n = 2; slugs.has(slug); n++) slug = `${base}-${n}`;
+  return slug;
+};
+
+// Id genre beserta semua turunannya (yang belum dihapus). UNION menjaga dari siklus.
+export const getGenreSubtreeIds = async (genreId: string, db: Db = prisma) => {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE subtree AS (
+      SELECT "id" FROM "Genre" WHERE "id" = ${genreId} AND "deleted_at" IS NULL
+      UNION
+      SELECT g."id" FROM "Genre" g
+      JOIN subtree s ON g."parent_id" = s."id"
+      WHERE g."deleted_at" IS NULL
+    )
+    SELECT "id" FROM subtree
+  `;
+  return rows.map((r) => r.id);
+};
+
+export interface GenreNode {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  book_count: number; // ditag langsung ke genre ini
+  total_book_count: number; // termasuk sub-genre, tiap buku dihitung sekali
+  children: GenreNode[];
+}
+
+/**
+ * Seluruh pohon genre dengan jumlah buku aktif. Jumlah total dihitung di SQL
+ * (COUNT DISTINCT) karena satu buku bisa ditag ke induk dan anaknya sekaligus.
+ */
+export const getGenreTree = async (): Promise<GenreNode[]> => {
+  const [genres, counts] = await Promise.all([
+    prisma.genre.findMany({
+      where: { deleted_at: null },
+      select: { id: true, name: true, slug: true, parent_id: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.$queryRaw<{ genre_id: string; direct: number; total: number }[]>`
+      WITH RECURSIVE tree AS (
+        SELECT "id" AS root_id, "id" AS genre_id FROM "Genre" WHERE "deleted_at" IS NULL
+        UNION
+        SELECT t.root_id, g."id" FROM tree t
+        JOIN "Genre" g ON g."parent_id" = t.genre_id
+        WHERE g."deleted_at" IS NULL
+      )
+      SELECT
+        t.root_id AS genre_id,
+        COUNT(DISTINCT bg."book_id") FILTER (WHERE t.genre_id = t.root_id)::int AS direct,
+        COUNT(DISTINCT bg."book_id")::int AS total
+      FROM tree t
+      JOIN "BookGenre" bg ON bg."genre_id" = t.genre_id
+      JOIN "Book" b ON b."id" = bg."book_id" AND b."deleted_at" IS NULL
+      GROUP BY t.root_id
+    `,
+  ]);
+
+  const countMap = new Map(counts.map((c) => [c.genre_id, c]));
+  const nodes = new Map<string, GenreNode>(
+    genres.map((g) => [
+      g.id,
+      {
+        ...g,
+        book_count: countMap.get(g.id)?.direct || 0,
+        total_book_count: countMap.get(g.id)?.total || 0,
+        children: [],
+      },
+    ])
+  );
+
+  // Genre yang induknya sudah dihapus tampil sebagai root
+  const roots: GenreNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+};
+
+// Link BookGenre sebuah buku = genre utama + genre tambahan
+export const setBookGenres = async (
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  primaryId: string,
+  extraIds: string[] = []
+) => {
+  const ids = [...new Set([primaryId, ...extraIds])];
+  await tx.bookGenre.deleteMany({ where: { book_id: bookId, genre_id: { notIn: ids } } });
+  await tx.bookGenre.createMany({
+    data: ids.map((genre_id) => ({ book_id: bookId, genre_id })),
+    skipDuplicates: true,
+  });
+};
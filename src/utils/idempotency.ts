@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { IdempotencyKey, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { IDEMPOTENCY_KEY_TTL_HOURS } from "./config";
+
+export interface IdempotentRequest {
+  scope: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type BeginResult =
+  | { state: "new"; record: IdempotencyKey }
+  | { state: "replay"; record: IdempotencyKey }
+  | { state: "in_flight" }
+  | { state: "mismatch" };
+
+// Urutan key objek dinormalisasi supaya {a,b} dan {b,a} dianggap body yang sama
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object")
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as any)[k])}`)
+      .join(",")}}`;
+  return JSON.stringify(value) ?? "null";
+};
+
+export const fingerprintRequest = (req: Pick<IdempotentRequest, "method" | "path" | "body">) =>
+  crypto
+    .createHash("sha256")
+    .update(`${req.method} ${req.path}\n${stableStringify(req.body ?? null)}`)
+    .digest("hex");
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+/**
+ * Klaim key untuk request ini. Insert ke unique (scope, key) jadi kunci:
+ * request kedua dengan key sama gagal insert, lalu melihat baris yang ada —
+ * masih diproses, sudah selesai (replay), atau dipakai untuk body lain.
+ */
+export const beginIdempotentRequest = async (input: IdempotentRequest): Promise<BeginResult> => {
+  const requestHash = fingerprintRequest(input);
+  const expiresAt = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  // Dua putaran: kalau baris lama ternyata kedaluwarsa, hapus lalu klaim ulang
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          scope: input.scope,
+          key: input.key,
+          method: input.method,
+          path: input.path,
+          request_hash: requestHash,
+          expires_at: expiresAt,
+        },
+      });
+      return { state: "new", record };
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope: input.scope, key: input.key } },
+    });
+    if (!existing) continue; // baru saja dilepas request lain
+
+    if (existing.expires_at <= new Date()) {
+      await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expires_at: { lte: new Date() } } });
+      continue;
+    }
+
+    if (existing.request_hash !== requestHash) return { state: "mismatch" };
+    if (existing.response_status === null) return { state: "in_flight" };
+    return { state: "replay", record: existing };
+  }
+
+  return { state: "in_flight" };
+};
+
+export const completeIdempotentRequest = (id: string, status: number, body: unknown) =>
+  prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      response_status: status,
+      response_body: body === undefined ? Prisma.JsonNull : (body as Prisma.InputJsonValue),
+    },
+  });
+
+// Lepas key (mis. server error) supaya client boleh mencoba lagi dengan key yang sama
+export const releaseIdempotentRequest = (id: string) =>
+  prisma.idempotencyKey.deleteMany({ where: { id } });
+
+export const purgeExpiredIdempotencyKeys = async (now: Date = new Date()) => {
+  const { count } = await prisma.idempotencyKey.deleteMany({ where: { expires_at: { lte: now } } });
+  return count;
+};
+
+export const startIdempotencyCleanupJob = (intervalMs = 60 * 60 * 1000) => {
+  const timer = setInterval(() => {
+    purgeExpiredIdempotencyKeys().catch((error) => console.error(error));
+  }, intervalMs);
+  timer.unref();
+  return timer;
+};
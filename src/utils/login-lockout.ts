@@ -0,0 +1,35 @@
+import { getRateLimitStore } from "./rate-limit-store";
+
+// Setelah MAX_FAILURES gagal berturut-turut, akun dikunci; durasi kunci
+// berlipat dua tiap kegagalan berikutnya sampai LOCK_MAX_MS
+const MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+const LOCK_BASE_MS = Number(process.env.LOGIN_LOCK_BASE_MS) || 60 * 1000;
+const LOCK_MAX_MS = 60 * 60 * 1000;
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const failureKey = (email: string) => `login-fail:${email.toLowerCase()}`;
+const lockKey = (email: string) => `login-lock:${email.toLowerCase()}`;
+
+// Sisa detik kunci akun, atau 0 kalau tidak terkunci
+export const getLockoutSeconds = async (email: string) => {
+  const lock = await getRateLimitStore().get(lockKey(email));
+  if (!lock) return 0;
+  return Math.max(0, Math.ceil((lock.resetAt - Date.now()) / 1000));
+};
+
+export const recordLoginFailure = async (email: string) => {
+  const store = getRateLimitStore();
+  const { count } = await store.increment(failureKey(email), FAILURE_WINDOW_MS);
+  if (count < MAX_FAILURES) return 0;
+
+  const lockMs = Math.min(LOCK_BASE_MS * 2 ** (count - MAX_FAILURES), LOCK_MAX_MS);
+  await store.reset(lockKey(email));
+  await store.increment(lockKey(email), lockMs);
+  return Math.ceil(lockMs / 1000);
+};
+
+export const clearLoginFailures = async (email: string) => {
+  const store = getRateLimitStore();
+  await store.reset(failureKey(email));
+  await store.reset(lockKey(email));
+};
@@ -0,0 +1,30 @@
+import { prisma } from "./prisma";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default: tulis email ke tabel OutboxMail, supaya alur reset password /
+// verifikasi email bisa dites tanpa SMTP (cukup baca tabelnya)
+export class OutboxMailer implements Mailer {
+  async send(message: MailMessage) {
+    await prisma.outboxMail.create({
+      data: { to: message.to, subject: message.subject, body: message.text },
+    });
+  }
+}
+
+let mailer: Mailer = new OutboxMailer();
+
+export const getMailer = () => mailer;
+
+// Ganti implementasi (mis. SMTP / provider email) saat bootstrap aplikasi
+export const setMailer = (custom: Mailer) => {
+  mailer = custom;
+};
@@ -0,0 +1,556 @@
+import type { Application, RequestHandler } from "express";
+import { z } from "zod";
+import { APP_URL } from "./config";
+import { bookQuerySchema } from "./book-query";
+import { bookSearchSchema } from "./book-search";
+import { ApiDocs, buildOpenApiDocument, findUndocumentedRoutes, listAppRoutes, OperationDoc } from "./openapi";
+import {
+  getRevenueByGenre,
+  getSalesOverTime,
+  getSalesSummary,
+  getTopBooks,
+  getTopWriters,
+  rangeSchema,
+  salesQuerySchema,
+  topQuerySchema,
+} from "../controllers/analytics.controller";
+import { auditQuerySchema, getAuditLogs } from "../controllers/audit.controller";
+import {
+  changePassword,
+  changePasswordSchema,
+  deleteAccountSchema,
+  deleteMe,
+  emailSchema,
+  forgotPassword,
+  getMe,
+  getMyRecommendations,
+  login,
+  loginSchema,
+  logout,
+  logoutAll,
+  recommendationQuerySchema,
+  refresh,
+  refreshSchema,
+  register,
+  registerSchema,
+  resendVerification,
+  resetPassword,
+  resetPasswordSchema,
+  tokenSchema,
+  updateMe,
+  updateProfileSchema,
+  verifyEmail,
+} from "../controllers/auth.controller";
+import {
+  bookSchema,
+  createBook,
+  createStockAdjustment,
+  deleteBook,
+  exportBooks,
+  getBookById,
+  getBooks,
+  getBooksByGenre,
+  getLowStockBooks,
+  getRelated,
+  getStockMovements,
+  getStockReconciliation,
+  getTrashedBooks,
+  importBooks,
+  importOptionsSchema,
+  importRowSchema,
+  lowStockQuerySchema,
+  relatedQuerySchema,
+  restoreBook,
+  searchBooks,
+  stockAdjustmentSchema,
+  stockMovementQuerySchema,
+  subgenreQuerySchema,
+  subscribeRestock,
+  trashQuerySchema as bookTrashQuerySchema,
+  unsubscribeRestock,
+  updateBook,
+} from "../controllers/books.controller";
+import {
+  addCartItem,
+  addItemSchema,
+  checkoutCart,
+  checkoutSchema,
+  clearCart,
+  getCart,
+  removeCartItem,
+  updateCartItem,
+  updateItemSchema,
+} from "../controllers/cart.controller";
+import {
+  couponQuerySchema,
+  couponSchema,
+  createCoupon,
+  deleteCoupon,
+  getCouponById,
+  getCoupons,
+  updateCoupon,
+} from "../controllers/coupons.controller";
+import { getDocsPage, getOpenApiDocument } from "../controllers/docs.controller";
+import {
+  createGenre,
+  deleteGenre,
+  deleteQuerySchema,
+  genreQuerySchema,
+  genreSchema,
+  getGenreById,
+  getGenres,
+  getTrashedGenres,
+  restoreGenre,
+  trashQuerySchema as genreTrashQuerySchema,
+  updateGenre,
+} from "../controllers/genre.controller";
+import { getHealth } from "../controllers/health.controller";
+import {
+  createPayment,
+  expireOrders,
+  handlePaymentWebhook,
+  paymentSchema,
+  simulatePayment,
+  simulateSchema,
+} from "../controllers/payments.controller";
+import {
+  createPromotion,
+  deletePromotion,
+  getPromotions,
+  promotionQuerySchema,
+  promotionSchema,
+  updatePromotion,
+} from "../controllers/promotions.controller";
+import {
+  createReview,
+  deleteReview,
+  getReviews,
+  moderateReview,
+  moderationSchema,
+  reviewQuerySchema,
+  reviewSchema,
+  updateReview,
+} from "../controllers/reviews.controller";
+import {
+  cancelTransaction,
+  cancelTransactionSchema,
+  createTransaction,
+  createTransactionSchema,
+  getStatistics,
+  getTransactionById,
+  getTransactions,
+  transactionQuerySchema,
+  transactionStatusSchema,
+  updateTransactionStatus,
+} from "../controllers/transactions.controller";
+import { addToWishlist, getWishlist, removeFromWishlist, wishlistSchema } from "../controllers/wishlist.controller";
+
+/**
+ * Deskripsi tiap handler. Path, method, akses (auth/admin), rate limit dan
+ * Idempotency-Key diambil dari router di src/routes, jadi yang ditulis di sini
+ * hanya teks dan schema zod-nya. Handler baru tanpa entri di sini membuat
+ * `npm run check:openapi` gagal.
+ *
+ * Dibangun saat dipanggil, bukan saat modul di-load: docs.controller dan file
+ * ini saling import.
+ */
+const apiDocs = (): ApiDocs =>
+  new Map<RequestHandler, OperationDoc>([
+  // Misc
+  [getHealth, { summary: "Health check" }],
+  [getOpenApiDocument, { summary: "OpenAPI document (this file)" }],
+  [getDocsPage, { summary: "Interactive API docs", produces: ["text/html"] }],
+
+  // Auth
+  [register, {
+    summary: "Register new user",
+    body: registerSchema,
+    status: 201,
+    errors: { 409: "Email already registered" },
+  }],
+  [login, {
+    summary: "Login user",
+    description: "Returns an access token and a refresh token. Repeated failures lock the account temporarily.",
+    body: loginSchema,
+    errors: { 401: "Invalid email or password", 403: "Email address has not been verified" },
+  }],
+  [refresh, {
+    summary: "Rotate refresh token and issue a new access token",
+    body: refreshSchema,
+    errors: { 401: "Invalid, expired or reused refresh token" },
+  }],
+  [verifyEmail, {
+    summary: "Verify email address",
+    body: tokenSchema,
+    byMethod: { get: { summary: "Verify email address from the emailed link", query: tokenSchema } },
+  }],
+  [resendVerification, {
+    summary: "Resend email verification link",
+    body: emailSchema,
+  }],
+  [forgotPassword, {
+    summary: "Request password reset link",
+    description: "The emailed link points to PASSWORD_RESET_URL (a frontend page), which calls POST /auth/reset-password.",
+    body: emailSchema,
+  }],
+  [resetPassword, {
+    summary: "Reset password with token",
+    body: resetPasswordSchema,
+  }],
+  [logout, { summary: "Logout current session" }],
+  [logoutAll, { summary: "Logout from all sessions" }],
+  [getMe, { summary: "Get current user profile", errors: { 404: "User not found" } }],
+  [updateMe, {
+    summary: "Update current user profile",
+    body: updateProfileSchema,
+    errors: { 404: "User not found", 409: "Email already registered" },
+  }],
+  [changePassword, {
+    summary: "Change password (all sessions are revoked)",
+    body: changePasswordSchema,
+  }],
+  [deleteMe, {
+    summary: "Soft delete current user account (orders are kept, email can be registered again)",
+    body: deleteAccountSchema,
+  }],
+  [getMyRecommendations, {
+    summary: "Personalized book recommendations from the user's order history",
+    query: recommendationQuerySchema,
+  }],
+
+  // Genres
+  [createGenre, {
+    summary: "Create genre",
+    body: genreSchema,
+    status: 201,
+    errors: { 404: "Parent genre not found", 409: "Genre name or slug already exists" },
+  }],
+  [getGenres, {
+    summary: "Get all genres",
+    description: "Paginated list, or with `tree=true` the full genre tree with book counts (no pagination).",
+    query: genreQuerySchema,
+  }],
+  [getTrashedGenres, {
+    summary: "List soft-deleted genres",
+    query: genreTrashQuerySchema,
+  }],
+  [getGenreById, { summary: "Get genre by ID or slug", errors: { 404: "Genre not found" } }],
+  [updateGenre, {
+    summary: "Update genre",
+    body: genreSchema.partial(),
+    errors: { 404: "Genre not found", 409: "Genre name or slug already exists" },
+  }],
+  [deleteGenre, {
+    summary: "Soft delete genre with a policy for its books and sub-genres",
+    query: deleteQuerySchema,
+    errors: { 404: "Genre not found", 409: "Genre still has books or sub-genres (policy=block)" },
+  }],
+  [restoreGenre, {
+    summary: "Restore soft-deleted genre, with sub-genres and books deleted in the same cascade",
+    errors: { 404: "Deleted genre not found", 409: "Parent is deleted or a live genre with the same name exists" },
+  }],
+
+  // Books
+  [createBook, {
+    summary: "Create book",
+    body: bookSchema,
+    status: 201,
+    errors: { 404: "Genre not found", 409: "Book title already exists" },
+  }],
+  [getBooks, {
+    summary: "Get all books (with filters, pagination, and sorting)",
+    query: bookQuerySchema,
+  }],
+  [importBooks, {
+    summary: "Bulk import books from CSV or JSON (upsert by title)",
+    query: importOptionsSchema,
+    body: z.array(importRowSchema),
+    bodyTypes: ["text/csv"],
+  }],
+  [exportBooks, {
+    summary: "Export filtered catalog as CSV or JSON (streamed)",
+    query: bookQuerySchema.and(z.object({ format: z.enum(["csv", "json"]).default("csv") })),
+    produces: ["text/csv"],
+    paginated: false, // filter sama dengan GET /books, tapi di-stream utuh
+  }],
+  [searchBooks, {
+    summary: "Full-text search books (ranked, with highlights and facets)",
+    query: bookSearchSchema,
+  }],
+  [getStockReconciliation, {
+    summary: "List books whose stock_quantity differs from the ledger balance",
+  }],
+  [getLowStockBooks, {
+    summary: "List books at or under their reorder threshold, with sales velocity",
+    query: lowStockQuerySchema,
+  }],
+  [getTrashedBooks, {
+    summary: "List soft-deleted books",
+    query: bookTrashQuerySchema,
+  }],
+  [getBooksByGenre, {
+    summary: "Get books by genre, optionally including sub-genres",
+    description: "Accepts the same filters as GET /books; `genre` is taken from the path.",
+    query: bookQuerySchema.and(subgenreQuerySchema),
+    errors: { 404: "Genre not found" },
+  }],
+  [getBookById, { summary: "Get book by ID", errors: { 404: "Book not found" } }],
+  [updateBook, {
+    summary: "Update book",
+    description: "Stock is changed through stock adjustments, not here.",
+    body: bookSchema.omit({ stock_quantity: true }).partial(),
+    errors: { 404: "Book or genre not found", 409: "Book title already exists" },
+  }],
+  [deleteBook, {
+    summary: "Soft delete book",
+    errors: { 404: "Book not found" },
+  }],
+  [restoreBook, {
+    summary: "Restore soft-deleted book",
+    errors: { 404: "Deleted book not found", 409: "Book title already exists" },
+  }],
+  [createStockAdjustment, {
+    tag: "Stock",
+    summary: "Adjust stock (restock, correction, return) — recorded in the ledger",
+    body: stockAdjustmentSchema,
+    status: 201,
+    errors: { 404: "Book not found", 409: "Adjustment would make stock negative" },
+  }],
+  [getStockMovements, {
+    tag: "Stock",
+    summary: "Get stock movement ledger of a book",
+    query: stockMovementQuerySchema,
+    errors: { 404: "Book not found" },
+  }],
+  [subscribeRestock, {
+    summary: "Subscribe to a restock notification for an out-of-stock book",
+    status: 201,
+    errors: { 404: "Book not found", 409: "Book is in stock" },
+  }],
+  [unsubscribeRestock, {
+    summary: "Cancel restock notification",
+    errors: { 404: "Subscription not found" },
+  }],
+  [getRelated, {
+    summary: "\"Customers also bought\" — co-purchases, then same writer/genre",
+    query: relatedQuerySchema,
+    errors: { 404: "Book not found" },
+  }],
+
+  // Reviews
+  [getReviews, {
+    tag: "Reviews",
+    summary: "Get reviews of a book",
+    query: reviewQuerySchema,
+    errors: { 404: "Book not found" },
+  }],
+  [createReview, {
+    tag: "Reviews",
+    summary: "Create review (only for users who bought the book)",
+    body: reviewSchema,
+    status: 201,
+    errors: { 403: "Only customers who bought this book can review it", 404: "Book not found", 409: "Already reviewed" },
+  }],
+  [updateReview, {
+    tag: "Reviews",
+    summary: "Update own review",
+    body: reviewSchema.partial(),
+    errors: { 403: "You can only edit your own review", 404: "Review not found" },
+  }],
+  [deleteReview, {
+    tag: "Reviews",
+    summary: "Delete review (author, or admin removing it)",
+    errors: { 403: "You can only delete your own review", 404: "Review not found" },
+  }],
+  [moderateReview, {
+    tag: "Reviews",
+    summary: "Hide or unhide a review",
+    body: moderationSchema,
+    errors: { 404: "Review not found" },
+  }],
+
+  // Transactions
+  [createTransaction, {
+    summary: "Create transaction",
+    body: createTransactionSchema,
+    status: 201,
+    errors: { 404: "Book or coupon not found", 409: "Insufficient stock or coupon limit reached" },
+  }],
+  [getTransactions, {
+    summary: "Get transactions (own, or all with all=true for admin)",
+    query: transactionQuerySchema,
+    errors: { 403: "Only admins may use all=true" },
+  }],
+  [getStatistics, { summary: "Get transaction statistics" }],
+  [getTransactionById, {
+    summary: "Get transaction by ID",
+    errors: { 404: "Transaction not found" },
+  }],
+  [updateTransactionStatus, {
+    summary: "Update transaction status",
+    body: transactionStatusSchema,
+    errors: { 404: "Transaction not found", 409: "Status transition is not allowed" },
+  }],
+  [cancelTransaction, {
+    summary: "Cancel own unpaid transaction (stock is restored)",
+    description: "Only PENDING orders can be cancelled by the customer; paid orders are cancelled by an admin.",
+    body: cancelTransactionSchema,
+    errors: { 404: "Transaction not found", 409: "Transaction can no longer be cancelled" },
+  }],
+
+  // Cart
+  [getCart, { summary: "Get current user's cart" }],
+  [addCartItem, {
+    summary: "Add book to cart (quantity is added to existing line)",
+    body: addItemSchema,
+    status: 201,
+    errors: { 404: "Book not found", 409: "Insufficient stock" },
+  }],
+  [clearCart, { summary: "Empty cart" }],
+  [updateCartItem, {
+    summary: "Set quantity of a cart item",
+    body: updateItemSchema,
+    errors: { 404: "Cart item not found", 409: "Insufficient stock" },
+  }],
+  [removeCartItem, {
+    summary: "Remove a book from cart",
+    errors: { 404: "Cart item not found" },
+  }],
+  [checkoutCart, {
+    summary: "Checkout cart into a transaction",
+    description:
+      "Unavailable books are removed and quantities capped at stock first; if anything changed " +
+      "the response is 409 with the updated cart in `data.cart` and nothing is ordered.",
+    body: checkoutSchema,
+    status: 201,
+    errors: {
+      404: "Book or coupon not found",
+      409: "Cart changed (unavailable items removed), insufficient stock or coupon limit reached",
+    },
+  }],
+
+  // Analytics
+  [getSalesOverTime, {
+    summary: "Revenue, orders and units sold over time",
+    query: salesQuerySchema,
+    produces: ["text/csv"],
+  }],
+  [getTopBooks, {
+    summary: "Top-selling books by units",
+    query: topQuerySchema,
+    produces: ["text/csv"],
+  }],
+  [getTopWriters, {
+    summary: "Top-selling writers by units",
+    query: topQuerySchema,
+    produces: ["text/csv"],
+  }],
+  [getRevenueByGenre, {
+    summary: "Revenue and units per genre",
+    query: rangeSchema,
+    produces: ["text/csv"],
+  }],
+  [getSalesSummary, {
+    summary: "Order summary: average order value and repeat-customer rate",
+    query: rangeSchema,
+    produces: ["text/csv"],
+  }],
+
+  // Wishlist
+  [getWishlist, { summary: "Get wishlist with price and stock changes since each book was added" }],
+  [addToWishlist, {
+    summary: "Add book to wishlist",
+    body: wishlistSchema,
+    status: 201,
+    errors: { 404: "Book not found", 409: "Book is already in your wishlist" },
+  }],
+  [removeFromWishlist, {
+    summary: "Remove book from wishlist",
+    errors: { 404: "Wishlist item not found" },
+  }],
+
+  // Coupons
+  [createCoupon, {
+    summary: "Create coupon",
+    body: couponSchema,
+    status: 201,
+    errors: { 404: "Genre or book not found", 409: "Coupon code already exists" },
+  }],
+  [getCoupons, {
+    summary: "Get all coupons",
+    query: couponQuerySchema,
+  }],
+  [getCouponById, { summary: "Get coupon by ID", errors: { 404: "Coupon not found" } }],
+  [updateCoupon, {
+    summary: "Update coupon",
+    body: couponSchema.partial(),
+    errors: { 404: "Coupon not found", 409: "Coupon code already exists" },
+  }],
+  [deleteCoupon, {
+    summary: "Delete coupon (only if never redeemed)",
+    errors: { 404: "Coupon not found", 409: "Coupon has already been redeemed" },
+  }],
+
+  // Promotions
+  [getPromotions, {
+    summary: "Get promotions (customers only see active ones)",
+    query: promotionQuerySchema,
+  }],
+  [createPromotion, {
+    summary: "Create genre-wide promotion",
+    body: promotionSchema,
+    status: 201,
+    errors: { 404: "Genre not found" },
+  }],
+  [updatePromotion, {
+    summary: "Update promotion",
+    body: promotionSchema.partial(),
+    errors: { 404: "Promotion or genre not found" },
+  }],
+  [deletePromotion, {
+    summary: "Delete promotion (only if never applied to an order)",
+    errors: { 404: "Promotion not found", 409: "Promotion has already been applied to an order" },
+  }],
+
+  // Payments
+  [handlePaymentWebhook, {
+    summary: "Receive signed payment webhook from provider",
+    description: "Authenticated by the provider signature header, not by a bearer token.",
+    errors: { 400: "Missing or invalid signature, or invalid payload", 404: "Payment not found" },
+  }],
+  [createPayment, {
+    summary: "Create payment intent for own pending order",
+    body: paymentSchema,
+    status: 201,
+    errors: { 404: "Transaction not found", 409: "Transaction is not awaiting payment" },
+  }],
+  [expireOrders, {
+    summary: "Expire overdue unpaid orders now (normally runs on a timer)",
+  }],
+  [simulatePayment, {
+    summary: "Simulate provider webhook for a payment (fake provider only)",
+    description: "Returns 404 unless the fake provider is active and ENABLE_FAKE_PAYMENTS=true.",
+    body: simulateSchema,
+    errors: { 404: "Payment not found, or simulation is not available" },
+  }],
+
+  // Audit
+  [getAuditLogs, {
+    summary: "Get audit log",
+    query: auditQuerySchema,
+  }],
+]);
+
+export const apiInfo = {
+  title: "IT Literature Shop API",
+  version: "1.0.0",
+  description:
+    "Every JSON response uses the envelope `{ success, message, data }`. " +
+    "List endpoints return `data: { data: [...], meta }` with offset (`page`) or cursor pagination.",
+};
+
+export const buildApiDocument = (app: Application) =>
+  buildOpenApiDocument(apiInfo, [{ url: APP_URL }], listAppRoutes(app), apiDocs());
+
+// Untuk `npm run check:openapi`
+export const findUndocumentedHandlers = (app: Application) => findUndocumentedRoutes(app, apiDocs());
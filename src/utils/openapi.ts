@@ -0,0 +1,427 @@
+import type { Application, RequestHandler } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { idempotencyMiddleware } from "../middlewares/idempotency.middleware";
+
+type JsonSchema = Record<string, any>;
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/**
+ * Bagian dokumentasi yang ditulis tangan untuk satu handler. Path, method, akses,
+ * rate limit dan Idempotency-Key dibaca dari router Express (lihat listAppRoutes),
+ * jadi dokumen tidak bisa berbeda dari route yang benar-benar terpasang.
+ * Body dan query memakai schema zod yang sama dengan controller.
+ */
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  tag?: string; // default dari prefix mount, mis. /books → "Books"
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny; // diabaikan untuk GET
+  bodyTypes?: string[]; // content type body selain application/json
+  status?: number; // status sukses, default 200
+  produces?: string[]; // content type response selain application/json
+  paginated?: boolean; // default: true kalau query memakai paginationFields
+  errors?: Record<number, string>;
+  // Handler yang dipasang di beberapa method, mis. GET & POST /auth/verify-email
+  byMethod?: Partial<Record<HttpMethod, Partial<OperationDoc>>>;
+}
+
+export type ApiDocs = Map<RequestHandler, OperationDoc>;
+
+// Route yang terpasang di app, beserta semua middleware yang dilewati sebelum handler
+export interface AppRoute {
+  method: HttpMethod;
+  path: string; // path Express, mis. "/books/:id"
+  mount: string; // prefix router, mis. "/books"
+  handler: RequestHandler;
+  middlewares: RequestHandler[];
+}
+
+const Kind = z.ZodFirstPartyTypeKind;
+
+/**
+ * Konversi schema zod → JSON Schema (dialek OpenAPI 3.0). Yang dipetakan hanya
+ * tipe yang dipakai di controller; sisanya jadi `{}` (bebas).
+ * Transform/refine tidak bisa diekspresikan, jadi yang didokumentasikan adalah input-nya.
+ */
+export const zodToJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const out = convert(schema);
+  if (schema.description) out.description = schema.description;
+  return out;
+};
+
+const convert = (schema: z.ZodTypeAny): JsonSchema => {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case Kind.ZodString: {
+      const out: JsonSchema = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "min") out.minLength = check.value;
+        else if (check.kind === "max") out.maxLength = check.value;
+        else if (check.kind === "length") out.minLength = out.maxLength = check.value;
+        else if (check.kind === "email") out.format = "email";
+        else if (check.kind === "uuid") out.format = "uuid";
+        else if (check.kind === "url") out.format = "uri";
+        else if (check.kind === "datetime") out.format = "date-time";
+        else if (check.kind === "regex") out.pattern = check.regex.source;
+      }
+      return out;
+    }
+    case Kind.ZodNumber: {
+      const out: JsonSchema = { type: "number" };
+      for (const check of def.checks) {
+        if (check.kind === "int") out.type = "integer";
+        else if (check.kind === "min") {
+          out.minimum = check.value;
+          if (!check.inclusive) out.exclusiveMinimum = true;
+        } else if (check.kind === "max") {
+          out.maximum = check.value;
+          if (!check.inclusive) out.exclusiveMaximum = true;
+        }
+      }
+      return out;
+    }
+    case Kind.ZodBoolean:
+      return { type: "boolean" };
+    case Kind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case Kind.ZodLiteral:
+      return { type: typeof def.value, enum: [def.value] };
+    case Kind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+    case Kind.ZodNativeEnum:
+      return { type: "string", enum: Object.values(def.values) };
+    case Kind.ZodArray: {
+      const out: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) out.minItems = def.minLength.value;
+      if (def.maxLength) out.maxItems = def.maxLength.value;
+      return out;
+    }
+    case Kind.ZodObject: {
+      const shape = def.shape();
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+      const properties = Object.fromEntries(
+        Object.entries(shape).map(([key, field]) => [key, zodToJsonSchema(field as z.ZodTypeAny)])
+      );
+      return required.length ? { type: "object", properties, required } : { type: "object", properties };
+    }
+    case Kind.ZodRecord:
+      return { type: "object", additionalProperties: zodToJsonSchema(def.valueType) };
+    case Kind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case Kind.ZodNullable:
+      return { ...zodToJsonSchema(def.innerType), nullable: true };
+    case Kind.ZodDefault: {
+      const value = def.defaultValue();
+      const inner = zodToJsonSchema(def.innerType);
+      // Default dinamis (mis. tanggal sekarang) tidak ditulis
+      return ["string", "number", "boolean"].includes(typeof value) ? { ...inner, default: value } : inner;
+    }
+    case Kind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case Kind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    case Kind.ZodUnion:
+      return { anyOf: def.options.map(zodToJsonSchema) };
+    case Kind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] };
+    default:
+      return {};
+  }
+};
+
+// Kumpulkan field dari schema query (menembus refine/merge/and) untuk dijadikan parameter
+const objectShape = (schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> => {
+  const def = schema._def;
+  switch (def.typeName) {
+    case Kind.ZodObject:
+      return def.shape();
+    case Kind.ZodEffects:
+      return objectShape(def.schema);
+    case Kind.ZodIntersection:
+      return { ...objectShape(def.left), ...objectShape(def.right) };
+    default:
+      throw new Error(`Query schema must be an object, got ${def.typeName}`);
+  }
+};
+
+// "/books/:id" → "/books/{id}"
+export const toOpenApiPath = (path: string) => path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+
+const ref = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({ "application/json": { schema } });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent({ $ref: "#/components/schemas/ErrorResponse" }),
+});
+
+// "/books" → "Books"; route di root app masuk "Misc"
+const tagFromMount = (mount: string) => {
+  const name = mount.split("/").filter(Boolean)[0];
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : "Misc";
+};
+
+const buildOperation = (route: AppRoute, doc: OperationDoc | undefined) => {
+  const op: OperationDoc = {
+    summary: `${route.method.toUpperCase()} ${route.path}`,
+    ...doc,
+    ...doc?.byMethod?.[route.method],
+  };
+  const body = route.method === "get" ? undefined : op.body;
+
+  // Akses, rate limit dan idempotency diturunkan dari middleware yang benar-benar terpasang
+  const roles = route.middlewares.flatMap((handler) => (handler as any).roles || []);
+  const access = roles.length ? "admin" : route.middlewares.includes(authMiddleware) ? "user" : "public";
+  const rateLimited = route.middlewares.some((handler) => (handler as any).rateLimit);
+  const idempotent = route.method !== "get" && route.middlewares.includes(idempotencyMiddleware);
+
+  const parameters: JsonSchema[] = [];
+
+  for (const [, name] of route.path.matchAll(/:([A-Za-z0-9_]+)/g)) {
+    parameters.push({ name, in: "path", required: true, schema: { type: "string" } });
+  }
+
+  const queryShape = op.query ? objectShape(op.query) : {};
+  for (const [name, field] of Object.entries(queryShape)) {
+    const schema = zodToJsonSchema(field);
+    parameters.push({
+      name,
+      in: "query",
+      required: !field.isOptional(),
+      schema,
+      ...(schema.type === "array" && { style: "form", explode: false }),
+    });
+  }
+
+  if (idempotent) parameters.push({ $ref: "#/components/parameters/IdempotencyKey" });
+
+  // Query dengan paginationFields lengkap (page + cursor) → response memakai meta paginate()
+  const paginated = op.paginated ?? ("page" in queryShape && "cursor" in queryShape);
+  const success = paginated
+    ? { $ref: "#/components/schemas/PaginatedResponse" }
+    : { $ref: "#/components/schemas/SuccessResponse" };
+
+  const responses: Record<string, any> = {
+    [op.status || 200]: {
+      description: "Success",
+      content: {
+        ...jsonContent(success),
+        ...Object.fromEntries((op.produces || []).map((type) => [type, { schema: { type: "string" } }])),
+      },
+    },
+  };
+  if (body || op.query) responses[400] = ref("ValidationError");
+  if (access !== "public") responses[401] = ref("Unauthorized");
+  if (access === "admin") responses[403] = ref("Forbidden");
+  for (const [status, description] of Object.entries(op.errors || {})) {
+    responses[status] = errorResponse(description);
+  }
+  if (idempotent) {
+    responses[409] = responses[409] || errorResponse("Request with the same Idempotency-Key is still in progress");
+    responses[422] = errorResponse("Idempotency-Key was reused with a different request body");
+  }
+  if (rateLimited) responses[429] = ref("TooManyRequests");
+  responses[500] = ref("InternalError");
+
+  const operation: JsonSchema = {
+    tags: [op.tag || tagFromMount(route.mount)],
+    summary: op.summary,
+    ...(op.description && { description: op.description }),
+    security: access === "public" ? [] : [{ bearerAuth: [] }],
+    ...(parameters.length && { parameters }),
+    responses,
+  };
+
+  if (body) {
+    const schema = zodToJsonSchema(body);
+    operation.requestBody = {
+      required: true,
+      content: {
+        ...jsonContent(schema),
+        ...Object.fromEntries((op.bodyTypes || []).map((type) => [type, { schema: { type: "string" } }])),
+      },
+    };
+  }
+
+  return operation;
+};
+
+const components = {
+  securitySchemes: {
+    bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+  },
+  parameters: {
+    IdempotencyKey: {
+      name: "Idempotency-Key",
+      in: "header",
+      required: false,
+      description:
+        "Unique key per logical request. A retry with the same key and body replays the stored " +
+        "response (with header Idempotent-Replayed: true) instead of executing again.",
+      schema: { type: "string", maxLength: 255 },
+    },
+  },
+  schemas: {
+    SuccessResponse: {
+      type: "object",
+      properties: {
+        success: { type: "boolean", enum: [true] },
+        message: { type: "string" },
+        data: { nullable: true },
+      },
+      required: ["success", "message"],
+    },
+    ErrorResponse: {
+      type: "object",
+      properties: {
+        success: { type: "boolean", enum: [false] },
+        message: { type: "string" },
+        data: { nullable: true, description: "Extra detail, e.g. retry_after or conflicting records" },
+      },
+      required: ["success", "message"],
+    },
+    ValidationErrorResponse: {
+      type: "object",
+      properties: {
+        success: { type: "boolean", enum: [false] },
+        message: { type: "string", example: "Validation error" },
+        data: {
+          type: "object",
+          description: "Flattened zod error; /auth endpoints return only { errors: fieldErrors }",
+          properties: {
+            formErrors: { type: "array", items: { type: "string" } },
+            fieldErrors: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+            errors: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+          },
+        },
+      },
+      required: ["success", "message"],
+    },
+    PaginationMeta: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        page: { type: "integer", nullable: true, description: "null in cursor mode" },
+        limit: { type: "integer" },
+        totalPages: { type: "integer" },
+        next_cursor: { type: "string", nullable: true },
+        prev_cursor: { type: "string", nullable: true },
+        links: {
+          type: "object",
+          properties: {
+            next: { type: "string", nullable: true },
+            prev: { type: "string", nullable: true },
+          },
+        },
+      },
+      required: ["total", "limit", "totalPages", "next_cursor", "prev_cursor", "links"],
+    },
+    PaginatedResponse: {
+      allOf: [
+        { $ref: "#/components/schemas/SuccessResponse" },
+        {
+          type: "object",
+          properties: {
+            data: {
+              type: "object",
+              properties: {
+                data: { type: "array", items: { type: "object" } },
+                meta: { $ref: "#/components/schemas/PaginationMeta" },
+              },
+              required: ["data", "meta"],
+            },
+          },
+        },
+      ],
+    },
+  },
+  responses: {
+    ValidationError: {
+      description: "Invalid request body or query",
+      content: jsonContent({ $ref: "#/components/schemas/ValidationErrorResponse" }),
+    },
+    Unauthorized: errorResponse("Missing, invalid or revoked access token"),
+    Forbidden: errorResponse("Authenticated user does not have the required role"),
+    TooManyRequests: {
+      ...errorResponse("Rate limit exceeded; data.retry_after holds the wait in seconds"),
+      headers: { "Retry-After": { schema: { type: "integer" } } },
+    },
+    InternalError: errorResponse("Unexpected server error"),
+  },
+};
+
+export const buildOpenApiDocument = (
+  info: { title: string; version: string; description?: string },
+  servers: { url: string }[],
+  routes: AppRoute[],
+  docs: ApiDocs
+) => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: buildOperation(route, docs.get(route.handler)) };
+  }
+
+  const tags = [
+    ...new Set(Object.values(paths).flatMap((methods) => Object.values(methods).map((op) => op.tags[0]))),
+  ].map((name) => ({ name }));
+  return { openapi: "3.0.3", info, servers, tags, paths, components };
+};
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
+
+// Prefix mount dari regexp layer Express 4, mis. /^\/books\/?(?=\/|$)/i → "/books"
+const mountPath = (layer: any): string =>
+  layer.regexp.fast_slash
+    ? ""
+    : layer.regexp.source
+        .replace("\\/?(?=\\/|$)", "")
+        .replace(/^\^/, "")
+        .replace(/\\\//g, "/");
+
+/**
+ * Telusuri stack Express berurutan. Middleware `use()` berlaku untuk route yang
+ * didaftarkan sesudahnya (mis. webhook pembayaran dipasang sebelum authMiddleware),
+ * jadi daftar middleware diwariskan sesuai urutan, termasuk ke router ter-mount.
+ */
+const walkStack = (stack: any[], mount: string, inherited: RequestHandler[]): AppRoute[] => {
+  const middlewares = [...inherited];
+  const routes: AppRoute[] = [];
+
+  for (const layer of stack) {
+    if (layer.route) {
+      const path = `${mount}${layer.route.path}`.replace(/(.)\/$/, "$1");
+      for (const method of Object.keys(layer.route.methods).filter((m) => m !== "_all") as HttpMethod[]) {
+        const handlers = layer.route.stack
+          .filter((routeLayer: any) => !routeLayer.method || routeLayer.method === method)
+          .map((routeLayer: any) => routeLayer.handle);
+        routes.push({
+          method,
+          path,
+          mount,
+          handler: handlers[handlers.length - 1],
+          middlewares: [...middlewares, ...handlers.slice(0, -1)],
+        });
+      }
+    } else if (layer.name === "router" && layer.handle?.stack) {
+      routes.push(...walkStack(layer.handle.stack, mount + mountPath(layer), middlewares));
+    } else {
+      middlewares.push(layer.handle);
+    }
+  }
+
+  return routes;
+};
+
+// Semua route yang terdaftar di app, termasuk yang ada di router ter-mount
+export const listAppRoutes = (app: Application) => walkStack((app as any)._router?.stack || [], "", []);
+
+// Route yang handler-nya belum punya OperationDoc
+export const findUndocumentedRoutes = (app: Application, docs: ApiDocs) =>
+  listAppRoutes(app)
+    .filter((route) => !docs.has(route.handler))
+    .map(({ method, path }) => `${method.toUpperCase()} ${path}`);
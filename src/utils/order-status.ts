@@ -0,0 +1,90 @@
+import { OrderStatus, PaymentStatus, Prisma, StockMovementType } from "@prisma/client";
+import { HttpError } from "./errors";
+import { adjustStock } from "./stock-ledger";
+import { releaseCoupon } from "./discounts";
+
+// State machine status order — status di luar daftar ini tidak bisa dituju
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  PAID: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  SHIPPED: [OrderStatus.COMPLETED],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// Pemilik order hanya boleh membatalkan sendiri selama belum dibayar. Order PAID
+// dibatalkan admin, yang sekaligus menandai payment-nya REFUND_PENDING
+export const CUSTOMER_CANCELLABLE: OrderStatus[] = [OrderStatus.PENDING];
+
+// Order yang sudah dibayar (termasuk yang sudah dikirim/selesai)
+export const PAID_ORDER_STATUSES: OrderStatus[] = [OrderStatus.PAID, OrderStatus.SHIPPED, OrderStatus.COMPLETED];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+/**
+ * Pindahkan status order di dalam transaksi yang sedang berjalan.
+ * Update bersyarat pada status lama supaya dua perubahan bersamaan tidak
+ * saling menimpa; pembatalan mengembalikan stok semua item order dan
+ * jatah pemakaian kupon, serta menandai payment order PAID sebagai REFUND_PENDING.
+ */
+export const transitionOrder = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  to: OrderStatus,
+  actorId: string | null,
+  note?: string
+) => {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { items: true },
+  });
+  if (!order) throw new HttpError(404, "Transaction not found");
+
+  if (!canTransition(order.status, to))
+    throw new HttpError(409, `Cannot change status from ${order.status} to ${to}`, {
+      status: order.status,
+      allowed: ORDER_TRANSITIONS[order.status],
+    });
+
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: { status: to },
+  });
+  // retryable: Idempotency-Key tidak menyimpan respons ini, retry diproses ulang
+  if (count === 0)
+    throw new HttpError(409, "Transaction status was changed concurrently, please retry", { retryable: true });
+
+  if (to === OrderStatus.CANCELLED) {
+    for (const item of order.items) {
+      await adjustStock(tx, {
+        bookId: item.book_id,
+        type: StockMovementType.CANCELLATION,
+        quantity: item.quantity,
+        reason: note,
+        actorId,
+        orderId,
+      });
+    }
+    await releaseCoupon(tx, orderId);
+
+    // Order yang sudah dibayar: catat bahwa uangnya harus dikembalikan
+    if (order.status === OrderStatus.PAID)
+      await tx.payment.updateMany({
+        where: { order_id: orderId, status: PaymentStatus.SUCCEEDED },
+        data: { status: PaymentStatus.REFUND_PENDING },
+      });
+  }
+
+  await tx.orderStatusHistory.create({
+    data: {
+      order_id: orderId,
+      from_status: order.status,
+      to_status: to,
+      actor_id: actorId,
+      note,
+    },
+  });
+
+  return { ...order, status: to };
+};
@@ -0,0 +1,196 @@
+import { Request } from "express";
+import { z } from "zod";
+import { HttpError } from "./errors";
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+type SortOrder = "asc" | "desc";
+
+// Isi cursor: nilai field sort + id baris terakhir/pertama, dan arah navigasi
+interface CursorPayload {
+  f: string; // field sort
+  v: string | number; // nilai field sort
+  t?: "date"; // v perlu dikembalikan ke Date
+  id: string;
+  d: "next" | "prev";
+}
+
+const encodeCursor = (payload: CursorPayload) =>
+  Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof payload?.f !== "string" || typeof payload?.id !== "string") return null;
+    if (payload.d !== "next" && payload.d !== "prev") return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Field pagination yang di-merge ke schema query tiap list endpoint.
+ * Mode offset: `?page=2&limit=20`. Mode cursor: `?cursor=<token dari meta>&limit=20`.
+ */
+export const paginationFields = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const payload = decodeCursor(value);
+      if (!payload) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+        return z.NEVER;
+      }
+      return payload;
+    })
+    .optional(),
+});
+
+export type PaginationParams = z.infer<typeof paginationFields>;
+
+// Pasang lewat .superRefine() setelah merge paginationFields
+export const checkPagination = (params: { page?: number; cursor?: unknown }, ctx: z.RefinementCtx) => {
+  if (params.page !== undefined && params.cursor !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Use either page or cursor, not both",
+      path: ["cursor"],
+    });
+  }
+};
+
+// Link relatif ke endpoint yang sama dengan query string lama, page/cursor diganti
+const buildLink = (req: Request, overrides: Record<string, string | number>) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(req.query)) {
+    if (key === "page" || key === "cursor" || value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) params.append(key, String(v));
+  }
+  for (const [key, value] of Object.entries(overrides)) params.set(key, String(value));
+  return `${req.baseUrl}${req.path}?${params.toString()}`;
+};
+
+interface FetchArgs {
+  where: object;
+  orderBy: object[];
+  skip?: number;
+  take: number;
+}
+
+// FetchArgs dalam bentuk netral untuk query SQL mentah (mis. pencarian):
+// urutkan (field sort, id) dengan `order`, ambil baris sesudah `after` kalau ada
+export interface Keyset {
+  order: SortOrder;
+  after?: { value: string | number | Date; id: string };
+}
+
+/**
+ * Jalankan list query dengan mode offset atau cursor (keyset).
+ * `findMany` menerima where tambahan untuk keyset — gabungkan dengan filter
+ * endpoint lewat AND. Sort field harus sudah lolos whitelist di schema.
+ */
+export const paginate = async <T extends { id: string }>(
+  req: Request,
+  params: PaginationParams,
+  sort: { field: string; order: SortOrder },
+  fetch: {
+    findMany: (args: FetchArgs, keyset: Keyset) => Promise<T[]>;
+    count: () => Promise<number>;
+  }
+) => {
+  const { limit, cursor } = params;
+  const orderFor = (order: SortOrder) => [{ [sort.field]: order }, { id: order }];
+
+  const makeCursor = (row: T, d: "next" | "prev") => {
+    const value = (row as any)[sort.field];
+    return encodeCursor({
+      f: sort.field,
+      v: value instanceof Date ? value.toISOString() : value,
+      t: value instanceof Date ? "date" : undefined,
+      id: row.id,
+      d,
+    });
+  };
+
+  if (!cursor) {
+    const page = params.page || 1;
+    const [data, total] = await Promise.all([
+      fetch.findMany(
+        { where: {}, orderBy: orderFor(sort.order), skip: (page - 1) * limit, take: limit },
+        { order: sort.order }
+      ),
+      fetch.count(),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+    const hasNext = page < totalPages;
+    const hasPrev = page > 1;
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages,
+        next_cursor: hasNext && data.length ? makeCursor(data[data.length - 1], "next") : null,
+        prev_cursor: null,
+        links: {
+          next: hasNext ? buildLink(req, { page: page + 1, limit }) : null,
+          prev: hasPrev ? buildLink(req, { page: page - 1, limit }) : null,
+        },
+      },
+    };
+  }
+
+  if (cursor.f !== sort.field) throw new HttpError(400, "Cursor does not match the requested sort field");
+
+  // Navigasi mundur = query dengan urutan dibalik, hasil dibalik lagi
+  const backward = cursor.d === "prev";
+  const order: SortOrder = backward ? (sort.order === "asc" ? "desc" : "asc") : sort.order;
+  const op = order === "asc" ? "gt" : "lt";
+  const value = cursor.t === "date" ? new Date(cursor.v) : cursor.v;
+
+  const [rows, total] = await Promise.all([
+    fetch.findMany(
+      {
+        where: {
+          OR: [{ [sort.field]: { [op]: value } }, { [sort.field]: value, id: { [op]: cursor.id } }],
+        },
+        orderBy: orderFor(order),
+        take: limit + 1,
+      },
+      { order, after: { value, id: cursor.id } }
+    ),
+    fetch.count(),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (backward) data.reverse();
+
+  // Maju: halaman sebelumnya pasti ada; mundur: halaman berikutnya pasti ada
+  const hasNext = backward ? data.length > 0 : hasMore;
+  const hasPrev = backward ? hasMore : data.length > 0;
+  const nextCursor = hasNext ? makeCursor(data[data.length - 1], "next") : null;
+  const prevCursor = hasPrev ? makeCursor(data[0], "prev") : null;
+
+  return {
+    data,
+    meta: {
+      total,
+      page: null,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      next_cursor: nextCursor,
+      prev_cursor: prevCursor,
+      links: {
+        next: nextCursor ? buildLink(req, { cursor: nextCursor, limit }) : null,
+        prev: prevCursor ? buildLink(req, { cursor: prevCursor, limit }) : null,
+      },
+    },
+  };
+};
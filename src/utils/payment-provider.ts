@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { HttpError } from "./errors";
+import { PAYMENT_WEBHOOK_SECRET } from "./config";
+
+export interface PaymentIntent {
+  provider_ref: string;
+  checkout_url: string | null;
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed";
+
+// Bentuk event yang sudah dinormalisasi, apa pun format asli provider-nya
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  provider_ref: string;
+  amount: number;
+  failure_reason?: string;
+  raw: unknown;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(input: { orderId: string; amount: number }): Promise<PaymentIntent>;
+  // Verifikasi signature + parse body mentah; lempar HttpError 400 kalau tidak valid
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+// Webhook lebih tua dari ini ditolak (mencegah replay)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Provider lokal untuk development & testing tanpa jaringan. Format signature
+ * meniru provider sungguhan: `t=<unix>,v1=<hmac-sha256(t + "." + body)>`.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  constructor(private readonly secret: string = PAYMENT_WEBHOOK_SECRET) {}
+
+  // Tidak ada halaman bayar; pembayaran diselesaikan lewat POST /payments/:id/simulate
+  async createIntent(_input: { orderId: string; amount: number }) {
+    return { provider_ref: `fake_pi_${crypto.randomBytes(12).toString("hex")}`, checkout_url: null };
+  }
+
+  sign(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const digest = crypto
+      .createHmac("sha256", this.secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  // Buat request webhook bertanda tangan seperti yang akan dikirim provider
+  buildWebhook(event: {
+    type: PaymentEventType;
+    provider_ref: string;
+    amount: number;
+    failure_reason?: string;
+  }) {
+    const body = JSON.stringify({ id: `fake_evt_${crypto.randomBytes(12).toString("hex")}`, ...event });
+    return { body, headers: { [FAKE_SIGNATURE_HEADER]: this.sign(body) } };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof header !== "string") throw new HttpError(400, "Missing webhook signature");
+
+    const parts = Object.fromEntries(header.split(",").map((p) => p.split("=", 2)));
+    const timestamp = Number(parts.t);
+    if (!Number.isInteger(timestamp) || typeof parts.v1 !== "string")
+      throw new HttpError(400, "Malformed webhook signature");
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS)
+      throw new HttpError(400, "Webhook timestamp outside tolerance");
+
+    const expected = Buffer.from(this.sign(rawBody.toString("utf8"), timestamp));
+    const received = Buffer.from(header);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received))
+      throw new HttpError(400, "Invalid webhook signature");
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new HttpError(400, "Invalid webhook payload");
+    }
+
+    if (
+      typeof payload?.id !== "string" ||
+      (payload.type !== "payment.succeeded" && payload.type !== "payment.failed") ||
+      typeof payload.provider_ref !== "string" ||
+      !Number.isInteger(payload.amount)
+    )
+      throw new HttpError(400, "Invalid webhook payload");
+
+    return {
+      id: payload.id,
+      type: payload.type,
+      provider_ref: payload.provider_ref,
+      amount: payload.amount,
+      failure_reason: payload.failure_reason,
+      raw: payload,
+    };
+  }
+}
+
+let provider: PaymentProvider = new FakePaymentProvider();
+
+export const getPaymentProvider = () => provider;
+
+// Ganti implementasi (mis. Midtrans / Stripe) saat bootstrap aplikasi
+export const setPaymentProvider = (custom: PaymentProvider) => {
+  provider = custom;
+};
@@ -0,0 +1,189 @@
+import { Request } from "express";
+import { OrderStatus, PaymentStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordAudit } from "./audit";
+import { HttpError } from "./errors";
+import { transitionOrder } from "./order-status";
+import { PaymentEvent } from "./payment-provider";
+import { queueRestockNotifications } from "./restock-notifier";
+
+export interface PaymentEventResult {
+  duplicate: boolean;
+  payment_id?: string;
+  order_id?: string;
+  payment_status?: PaymentStatus;
+  order_status?: OrderStatus;
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+/**
+ * Terapkan event webhook ke payment & order dalam satu transaksi.
+ * Idempoten dua lapis: event_id yang sama hanya diproses sekali, dan payment
+ * yang sudah final (bukan PENDING) tidak diubah lagi oleh event lain.
+ * Pembayaran gagal hanya dicatat di payment: order tetap PENDING supaya customer
+ * bisa membuat payment baru, dan baru dibatalkan expiry sweep kalau tetap tidak dibayar.
+ * `req` hanya dipakai untuk request id & IP di audit log.
+ */
+export const processPaymentEvent = async (
+  providerName: string,
+  event: PaymentEvent,
+  req: Request | null = null
+): Promise<PaymentEventResult> => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const seen = await tx.paymentWebhookEvent.findUnique({
+        where: { provider_event_id: { provider: providerName, event_id: event.id } },
+      });
+      if (seen) return { duplicate: true };
+
+      // Kalau event yang sama masuk bersamaan, salah satu gagal di unique constraint
+      await tx.paymentWebhookEvent.create({
+        data: {
+          provider: providerName,
+          event_id: event.id,
+          type: event.type,
+          payload: event.raw as Prisma.InputJsonValue,
+        },
+      });
+
+      const payment = await tx.payment.findUnique({
+        where: { provider_provider_ref: { provider: providerName, provider_ref: event.provider_ref } },
+        include: { order: true },
+      });
+      if (!payment) throw new HttpError(404, "Payment not found");
+
+      const succeeded = event.type === "payment.succeeded";
+      if (succeeded && event.amount !== payment.amount)
+        throw new HttpError(400, "Payment amount does not match", {
+          expected: payment.amount,
+          received: event.amount,
+        });
+
+      const status = succeeded ? PaymentStatus.SUCCEEDED : PaymentStatus.FAILED;
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
+        data: { status, failure_reason: succeeded ? null : event.failure_reason || "Payment failed" },
+      });
+
+      // Payment sudah final lewat event lain → cukup laporkan keadaan sekarang
+      if (count === 0)
+        return {
+          duplicate: false,
+          payment_id: payment.id,
+          order_id: payment.order_id,
+          payment_status: payment.status,
+          order_status: payment.order.status,
+        };
+
+      let paymentStatus: PaymentStatus = status;
+      let orderStatus = payment.order.status;
+      // Pembayaran gagal tidak menyentuh order — stok tetap dipesan sampai dibayar atau kedaluwarsa
+      if (succeeded && orderStatus === OrderStatus.PENDING) {
+        const order = await transitionOrder(
+          tx,
+          payment.order_id,
+          OrderStatus.PAID,
+          null,
+          `Paid via ${providerName} (${event.provider_ref})`
+        );
+        await recordAudit(
+          req,
+          {
+            action: "order.status_update",
+            entityType: "order",
+            entityId: payment.order_id,
+            before: { status: orderStatus },
+            after: { status: order.status },
+            metadata: {
+              source: "payment_webhook",
+              provider: providerName,
+              event_id: event.id,
+              payment_id: payment.id,
+            },
+            actor: null,
+          },
+          tx
+        );
+        orderStatus = order.status;
+      } else if (succeeded) {
+        // Uang masuk tapi order sudah dibayar lewat payment lain, kedaluwarsa,
+        // atau dibatalkan — tandai untuk refund
+        paymentStatus = PaymentStatus.REFUND_PENDING;
+        await tx.payment.update({ where: { id: payment.id }, data: { status: paymentStatus } });
+        console.warn(
+          `Payment ${payment.id} succeeded for order ${payment.order_id} with status ${orderStatus}; refund required`
+        );
+      }
+
+      return {
+        duplicate: false,
+        payment_id: payment.id,
+        order_id: payment.order_id,
+        payment_status: paymentStatus,
+        order_status: orderStatus,
+      };
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return { duplicate: true };
+    throw error;
+  }
+};
+
+/**
+ * Batalkan order PENDING yang lewat batas bayar: stok & kupon dikembalikan,
+ * payment yang masih PENDING ditandai EXPIRED. Mengembalikan id order yang dibatalkan.
+ * Dari job berkala `req` kosong; dari endpoint admin, admin tercatat sebagai aktor audit.
+ */
+export const expireUnpaidOrders = async (now: Date = new Date(), req: Request | null = null) => {
+  const due = await prisma.order.findMany({
+    where: { status: OrderStatus.PENDING, expires_at: { lte: now } },
+    select: { id: true },
+    orderBy: { expires_at: "asc" },
+    take: 100,
+  });
+
+  const expired: string[] = [];
+  for (const { id } of due) {
+    try {
+      const order = await prisma.$transaction(async (tx) => {
+        await tx.payment.updateMany({
+          where: { order_id: id, status: PaymentStatus.PENDING },
+          data: { status: PaymentStatus.EXPIRED },
+        });
+        const cancelled = await transitionOrder(tx, id, OrderStatus.CANCELLED, null, "Payment timeout");
+        await recordAudit(
+          req,
+          {
+            action: "order.status_update",
+            entityType: "order",
+            entityId: id,
+            before: { status: OrderStatus.PENDING },
+            after: { status: cancelled.status },
+            metadata: { source: "payment_expiry", note: "Payment timeout" },
+          },
+          tx
+        );
+        return cancelled;
+      });
+      queueRestockNotifications(order.items.map((i) => i.book_id));
+      expired.push(id);
+    } catch (error) {
+      // Order keburu dibayar/dibatalkan di sela-sela → lewati
+      if (error instanceof HttpError) continue;
+      throw error;
+    }
+  }
+
+  return expired;
+};
+
+// Sweep berkala; unref() supaya timer tidak menahan proses saat shutdown
+export const startPaymentExpiryJob = (intervalMs = 60 * 1000) => {
+  const timer = setInterval(() => {
+    expireUnpaidOrders().catch((error) => console.error(error));
+  }, intervalMs);
+  timer.unref();
+  return timer;
+};
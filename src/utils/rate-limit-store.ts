@@ -0,0 +1,58 @@
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+// Store counter rate limit — bisa diganti Redis dsb. lewat setRateLimitStore()
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  reset(key: string): Promise<void>;
+}
+
+// Default in-memory (per proses) — cukup untuk satu instance tanpa Redis
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    // Bersihkan entry kedaluwarsa secara berkala; unref supaya tidak menahan proses
+    setInterval(() => this.cleanup(), cleanupIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const existing = this.entries.get(key);
+    if (!existing || existing.resetAt <= now) {
+      const entry = { count: 1, resetAt: now + windowMs };
+      this.entries.set(key, entry);
+      return { ...entry };
+    }
+    existing.count += 1;
+    return { ...existing };
+  }
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.resetAt <= Date.now()) return null;
+    return { ...entry };
+  }
+
+  async reset(key: string) {
+    this.entries.delete(key);
+  }
+
+  private cleanup() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.resetAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (custom: RateLimitStore) => {
+  store = custom;
+};
@@ -0,0 +1,152 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type RecommendationReason = "bought_together" | "same_writer" | "same_genre" | "popular";
+
+const bookSummary = {
+  id: true,
+  title: true,
+  writer: true,
+  price: true,
+  stock_quantity: true,
+  average_rating: true,
+  genre: { select: { id: true, name: true } },
+} satisfies Prisma.BookSelect;
+
+// Buku yang masih dijual dan ada stoknya
+const availableBook = (exclude: string[]): Prisma.BookWhereInput => ({
+  id: { notIn: exclude },
+  deleted_at: null,
+  stock_quantity: { gt: 0 },
+});
+
+/**
+ * Skor co-purchase: berapa banyak order (tidak dibatalkan) yang berisi salah
+ * satu `bookIds` sekaligus buku lain. `excludeUserId` mengabaikan order milik
+ * user itu sendiri (untuk rekomendasi personal).
+ */
+const coPurchaseScores = async (bookIds: string[], limit: number, excludeUserId?: string) => {
+  if (bookIds.length === 0) return [];
+
+  return prisma.$queryRaw<{ book_id: string; score: number }[]>`
+    SELECT other."book_id", COUNT(DISTINCT other."order_id")::int AS score
+    FROM "OrderItem" seed
+    JOIN "Order" o ON o."id" = seed."order_id"
+    JOIN "OrderItem" other ON other."order_id" = seed."order_id"
+    JOIN "Book" b ON b."id" = other."book_id"
+    WHERE seed."book_id" IN (${Prisma.join(bookIds)})
+      AND other."book_id" NOT IN (${Prisma.join(bookIds)})
+      AND o."status" <> 'CANCELLED'
+      AND (${excludeUserId ?? null}::text IS NULL OR o."user_id" <> ${excludeUserId ?? null}::text)
+      AND b."deleted_at" IS NULL
+      AND b."stock_quantity" > 0
+    GROUP BY other."book_id"
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `;
+};
+
+// Gabungkan kandidat dari beberapa sumber berurutan sampai `limit` terpenuhi
+const collect = async (
+  limit: number,
+  exclude: string[],
+  sources: { reason: RecommendationReason; ids: () => Promise<string[]> }[]
+) => {
+  const picked: { id: string; reason: RecommendationReason }[] = [];
+  const seen = new Set(exclude);
+
+  for (const source of sources) {
+    if (picked.length >= limit) break;
+    for (const id of await source.ids()) {
+      if (picked.length >= limit) break;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      picked.push({ id, reason: source.reason });
+    }
+  }
+
+  const books = await prisma.book.findMany({
+    where: { id: { in: picked.map((p) => p.id) } },
+    select: bookSummary,
+  });
+  const byId = new Map(books.map((b) => [b.id, b]));
+
+  return picked
+    .filter((p) => byId.has(p.id))
+    .map((p) => ({ ...byId.get(p.id)!, reason: p.reason }));
+};
+
+const findIds = async (where: Prisma.BookWhereInput, limit: number) =>
+  (
+    await prisma.book.findMany({
+      where,
+      select: { id: true },
+      orderBy: [{ average_rating: "desc" }, { review_count: "desc" }],
+      take: limit,
+    })
+  ).map((b) => b.id);
+
+// Buku terlaris sepanjang waktu — fallback terakhir / user tanpa riwayat
+const bestSellerIds = async (exclude: string[], limit: number) => {
+  const rows = await prisma.orderItem.groupBy({
+    by: ["book_id"],
+    where: { book: availableBook(exclude), order: { status: { not: OrderStatus.CANCELLED } } },
+    _sum: { quantity: true },
+    orderBy: { _sum: { quantity: "desc" } },
+    take: limit,
+  });
+  return rows.map((r) => r.book_id);
+};
+
+/**
+ * "Customers also bought": co-purchase dulu, lalu penulis sama,
+ * lalu genre sama, lalu buku terlaris.
+ */
+export const getRelatedBooks = async (book: { id: string; writer: string; genre_id: string }, limit: number) =>
+  collect(limit, [book.id], [
+    {
+      reason: "bought_together",
+      ids: async () => (await coPurchaseScores([book.id], limit)).map((r) => r.book_id),
+    },
+    { reason: "same_writer", ids: () => findIds({ ...availableBook([book.id]), writer: book.writer }, limit) },
+    { reason: "same_genre", ids: () => findIds({ ...availableBook([book.id]), genre_id: book.genre_id }, limit) },
+    { reason: "popular", ids: () => bestSellerIds([book.id], limit) },
+  ]);
+
+/**
+ * Rekomendasi personal dari riwayat order user sendiri. Buku yang sudah
+ * pernah dibeli tidak direkomendasikan. Genre & penulis diurutkan dari
+ * yang paling sering dibeli user.
+ */
+export const getRecommendationsForUser = async (userId: string, limit: number) => {
+  const purchased = await prisma.orderItem.findMany({
+    where: { order: { user_id: userId, status: { not: OrderStatus.CANCELLED } } },
+    select: { quantity: true, book: { select: { id: true, writer: true, genre_id: true } } },
+  });
+
+  const boughtIds = [...new Set(purchased.map((p) => p.book.id))];
+
+  const rank = (key: (p: (typeof purchased)[number]) => string) => {
+    const counts = new Map<string, number>();
+    for (const p of purchased) counts.set(key(p), (counts.get(key(p)) || 0) + p.quantity);
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  };
+  const topWriters = rank((p) => p.book.writer).slice(0, 5);
+  const topGenres = rank((p) => p.book.genre_id).slice(0, 3);
+
+  return collect(limit, boughtIds, [
+    {
+      reason: "bought_together",
+      ids: async () => (await coPurchaseScores(boughtIds, limit, userId)).map((r) => r.book_id),
+    },
+    {
+      reason: "same_writer",
+      ids: () => findIds({ ...availableBook(boughtIds), writer: { in: topWriters } }, limit),
+    },
+    {
+      reason: "same_genre",
+      ids: () => findIds({ ...availableBook(boughtIds), genre_id: { in: topGenres } }, limit),
+    },
+    { reason: "popular", ids: () => bestSellerIds(boughtIds, limit) },
+  ]);
+};
@@ -0,0 +1,78 @@
+import { prisma } from "./prisma";
+import { getMailer } from "./mailer";
+
+export interface RestockNotice {
+  user: { id: string; email: string; username: string | null };
+  book: { id: string; title: string; stock_quantity: number };
+}
+
+export interface RestockNotifier {
+  notify(notice: RestockNotice): Promise<void>;
+}
+
+// Default: kirim lewat mailer — dengan OutboxMailer pesannya masuk tabel OutboxMail
+export class MailRestockNotifier implements RestockNotifier {
+  async notify({ user, book }: RestockNotice) {
+    await getMailer().send({
+      to: user.email,
+      subject: `"${book.title}" is back in stock`,
+      text:
+        `Hi ${user.username || user.email},\n\n` +
+        `"${book.title}" that you asked us to watch is available again ` +
+        `(${book.stock_quantity} in stock). Grab it before it runs out!`,
+    });
+  }
+}
+
+let notifier: RestockNotifier = new MailRestockNotifier();
+
+export const getRestockNotifier = () => notifier;
+
+export const setRestockNotifier = (custom: RestockNotifier) => {
+  notifier = custom;
+};
+
+/**
+ * Kirim notifikasi ke subscriber buku yang stoknya sudah > 0 lagi.
+ * Panggil SETELAH transaksi perubahan stok commit. notified_at di-set
+ * bersyarat, jadi pemanggilan ganda tidak mengirim notifikasi dua kali.
+ */
+export const dispatchRestockNotifications = async (bookIds: string[]) => {
+  const subscriptions = await prisma.stockSubscription.findMany({
+    where: {
+      book_id: { in: bookIds },
+      notified_at: null,
+      book: { deleted_at: null, stock_quantity: { gt: 0 } },
+      user: { deleted_at: null },
+    },
+    include: {
+      user: { select: { id: true, email: true, username: true } },
+      book: { select: { id: true, title: true, stock_quantity: true } },
+    },
+  });
+
+  for (const subscription of subscriptions) {
+    const { count } = await prisma.stockSubscription.updateMany({
+      where: { id: subscription.id, notified_at: null },
+      data: { notified_at: new Date() },
+    });
+    if (count === 0) continue;
+
+    try {
+      await notifier.notify({ user: subscription.user, book: subscription.book });
+    } catch (error) {
+      // Gagal kirim → buka lagi supaya ikut terkirim di restock berikutnya
+      console.error(error);
+      await prisma.stockSubscription.update({
+        where: { id: subscription.id },
+        data: { notified_at: null },
+      });
+    }
+  }
+};
+
+// Versi fire-and-forget untuk controller: error dicatat, response tidak tertunda
+export const queueRestockNotifications = (bookIds: string[]) => {
+  if (bookIds.length === 0) return;
+  dispatchRestockNotifications(bookIds).catch((error) => console.error(error));
+};
@@ -0,0 +1,54 @@
+import { Prisma, StockMovementType } from "@prisma/client";
+
+interface MovementInput {
+  bookId: string;
+  type: StockMovementType;
+  quantity: number; // delta bertanda
+  reason?: string;
+  actorId?: string | null;
+  orderId?: string;
+}
+
+// Catat movement untuk perubahan stok yang SUDAH diterapkan di transaksi yang sama
+export const recordMovement = async (
+  tx: Prisma.TransactionClient,
+  input: MovementInput,
+  balanceAfter: number
+) =>
+  tx.stockMovement.create({
+    data: {
+      book_id: input.bookId,
+      type: input.type,
+      quantity: input.quantity,
+      balance_after: balanceAfter,
+      reason: input.reason,
+      actor_id: input.actorId,
+      order_id: input.orderId,
+    },
+  });
+
+/**
+ * Ubah stok + catat ke ledger dalam satu langkah. Pengurangan bersyarat:
+ * kalau stok tidak cukup, tidak ada yang diubah dan hasilnya null.
+ * Harus dipanggil di dalam prisma.$transaction.
+ */
+export const adjustStock = async (tx: Prisma.TransactionClient, input: MovementInput) => {
+  if (input.quantity < 0) {
+    const { count } = await tx.book.updateMany({
+      where: { id: input.bookId, stock_quantity: { gte: -input.quantity } },
+      data: { stock_quantity: { decrement: -input.quantity } },
+    });
+    if (count === 0) return null;
+  } else {
+    await tx.book.update({
+      where: { id: input.bookId },
+      data: { stock_quantity: { increment: input.quantity } },
+    });
+  }
+
+  const book = await tx.book.findUniqueOrThrow({
+    where: { id: input.bookId },
+    select: { stock_quantity: true },
+  });
+  return recordMovement(tx, input, book.stock_quantity);
+};
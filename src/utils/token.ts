@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Prisma, Role, UserTokenType } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ACCESS_TOKEN_TTL, JWT_SECRET, REFRESH_TOKEN_TTL_DAYS } from "./config";
+
+// Token acak ber-entropi tinggi cukup di-hash dengan SHA-256 (tidak perlu bcrypt)
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Access token JWT berumur pendek. `sid` = family id refresh token,
+ * dipakai authMiddleware untuk menolak token dari sesi yang sudah di-logout.
+ */
+export const signAccessToken = (
+  user: { id: string; email: string; role: Role },
+  sessionId: string
+) =>
+  jwt.sign({ id: user.id, email: user.email, role: user.role, sid: sessionId }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  } as jwt.SignOptions);
+
+/**
+ * Buat refresh token baru. Tanpa familyId = login baru (family baru);
+ * dengan familyId = hasil rotasi dari token sebelumnya.
+ * Yang disimpan hanya hash-nya, token mentah hanya dikembalikan sekali.
+ */
+export const issueRefreshToken = async (
+  userId: string,
+  familyId: string = crypto.randomUUID(),
+  db: Prisma.TransactionClient = prisma
+) => {
+  const token = crypto.randomBytes(48).toString("base64url");
+  const record = await db.refreshToken.create({
+    data: {
+      user_id: userId,
+      family_id: familyId,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+  return { token, record };
+};
+
+// Cabut semua sesi user — dipakai logout-all (dan nanti ganti password)
+export const revokeAllSessions = (userId: string, db: Prisma.TransactionClient = prisma) =>
+  db.refreshToken.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+
+/**
+ * Token sekali pakai (verifikasi email / reset password).
+ * Token lama dengan tipe yang sama yang belum dipakai ikut dimatikan.
+ */
+export const issueUserToken = async (userId: string, type: UserTokenType, ttlMs: number) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { user_id: userId, type, used_at: null },
+      data: { used_at: new Date() },
+    }),
+    prisma.userToken.create({
+      data: {
+        user_id: userId,
+        type,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + ttlMs),
+      },
+    }),
+  ]);
+  return token;
+};
+
+/**
+ * Tandai token terpakai dan kembalikan user_id-nya, atau null kalau token
+ * tidak valid / kedaluwarsa / sudah dipakai. Update bersyarat = single-use
+ * meskipun dua request datang bersamaan.
+ */
+export const consumeUserToken = async (
+  token: string,
+  type: UserTokenType,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const stored = await db.userToken.findUnique({ where: { token_hash: hashToken(token) } });
+  if (!stored || stored.type !== type || stored.used_at || stored.expires_at < new Date()) {
+    return null;
+  }
+
+  const { count } = await db.userToken.updateMany({
+    where: { id: stored.id, used_at: null },
+    data: { used_at: new Date() },
+  });
+  return count === 1 ? stored.user_id : null;
+};
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Request, Response } from "express";
+import { fakeDb as db } from "./helpers/fake-prisma";
+import { importBooks } from "../src/controllers/books.controller";
+import { csvToObjects, toCsvRow } from "../src/utils/csv";
+import { queueRestockNotifications } from "../src/utils/restock-notifier";
+
+vi.mock("../src/utils/prisma", async () => ({
+  prisma: (await import("./helpers/fake-prisma")).fakeDb.client,
+}));
+vi.mock("../src/utils/restock-notifier", () => ({ queueRestockNotifications: vi.fn() }));
+vi.mock("../src/utils/cart", () => ({ syncCartsForBook: vi.fn() }));
+
+const HEADER = "title,writer,publisher,publication_year,price,stock_quantity,genre\r\n";
+
+const runImport = async (body: unknown, query: Record<string, string> = {}) => {
+  const req = { query, body, user: { id: "admin-1", email: "admin@example.com" }, ip: "127.0.0.1" };
+  const res = {
+    statusCode: 0,
+    body: undefined as any,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  };
+  await importBooks(req as unknown as Request, res as unknown as Response);
+  return res;
+};
+
+describe("CSV round trip", () => {
+  it("restores values that were guarded against formula injection on export", () => {
+    const csv = toCsvRow(["title", "writer"]) + toCsvRow(["-Negative Space", '=HYPERLINK("x"), "quoted"']);
+
+    expect(csv.split("\r\n")[1]).toBe(`'-Negative Space,"'=HYPERLINK(""x""), ""quoted"""`);
+    expect(csvToObjects(csv)).toEqual([{ title: "-Negative Space", writer: '=HYPERLINK("x"), "quoted"' }]);
+  });
+});
+
+describe("importBooks", () => {
+  let genre: Record<string, any>;
+
+  const seedCleanCode = (stock: number) =>
+    db.seed("book", {
+      title: "Clean Code",
+      writer: "Robert Martin",
+      publisher: "PH",
+      publication_year: 2008,
+      price: 90000,
+      stock_quantity: stock,
+      genre_id: genre.id,
+    });
+
+  beforeEach(() => {
+    db.reset();
+    vi.mocked(queueRestockNotifications).mockClear();
+    genre = db.seed("genre", { name: "Programming", slug: "programming" });
+  });
+
+  it("rejects the whole file with 422 when any row is invalid", async () => {
+    const res = await runImport(
+      HEADER +
+        "Clean Code,Robert Martin,Prentice Hall,2008,100000,5,Programming\r\n" +
+        "Cheap Book,Someone,Pub,2020,10.5,5,Programming\r\n" +
+        "Lost Book,Someone,Pub,2020,50000,5,Poetry\r\n"
+    );
+
+    expect(res.statusCode).toBe(422);
+    expect(res.body.data.summary).toMatchObject({ total: 3, valid: 1, invalid: 2 });
+    expect(res.body.data.rows[1]).toMatchObject({ row: 2, action: "error", errors: { price: expect.any(Array) } });
+    expect(res.body.data.rows[2].errors).toEqual({ row: ['Genre "Poetry" not found'] });
+    expect(db.rows("book")).toHaveLength(0);
+  });
+
+  it("reports creates and updates on a dry run without writing", async () => {
+    seedCleanCode(1);
+    const book = { writer: "Someone", publisher: "Pub", publication_year: 2020, price: 100000, stock_quantity: 5 };
+
+    // Body JSON; nama genre tidak peka huruf besar/kecil
+    const res = await runImport(
+      [
+        { ...book, title: "Clean Code", genre: "programming" },
+        { ...book, title: "Refactoring", genre: "Programming" },
+      ],
+      { dry_run: "true" }
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.summary).toMatchObject({ created: 1, updated: 1 });
+    expect(res.body.data.rows.map((r: any) => r.action)).toEqual(["update", "create"]);
+    expect(db.rows("book")).toHaveLength(1);
+    expect(db.rows("book")[0].price).toBe(90000);
+  });
+
+  it("upserts by title and books the stock delta against the stock read inside the transaction", async () => {
+    const existing = seedCleanCode(10);
+
+    // Checkout lain menjual 3 eksemplar setelah validasi, sebelum transaksi import
+    const transaction = db.client.$transaction;
+    vi.spyOn(db.client, "$transaction").mockImplementationOnce(async (fn: any) => {
+      existing.stock_quantity = 7;
+      return transaction(fn);
+    });
+
+    const res = await runImport(
+      HEADER +
+        "Clean Code,Robert Martin,PH,2008,100000,12,Programming\r\n" +
+        "Refactoring,Martin Fowler,AW,2018,150000,4,Programming\r\n"
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.summary).toMatchObject({ created: 1, updated: 1 });
+
+    const refactoring = db.rows("book").find((b) => b.title === "Refactoring")!;
+    expect(existing).toMatchObject({ price: 100000, stock_quantity: 12 });
+    expect(db.rows("stockMovement")).toEqual([
+      expect.objectContaining({ book_id: existing.id, type: "CORRECTION", quantity: 5, balance_after: 12 }),
+      expect.objectContaining({ book_id: refactoring.id, type: "RESTOCK", quantity: 4, balance_after: 4 }),
+    ]);
+    expect(db.rows("bookGenre")).toHaveLength(2);
+    expect(db.rows("auditLog").map((a) => [a.action, a.diff.stock_quantity])).toEqual([
+      ["book.update", { from: 7, to: 12 }],
+      ["book.create", { from: null, to: 4 }],
+    ]);
+    expect(queueRestockNotifications).toHaveBeenCalledWith([existing.id, refactoring.id]);
+  });
+});
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createFakePrisma } from "./helpers/fake-prisma";
+import { formatReceipt, placeOrder } from "../src/utils/checkout";
+import { HttpError } from "../src/utils/errors";
+
+const db = createFakePrisma();
+
+const seedBook = (title: string, price: number, stock: number) =>
+  db.seed("book", { title, price, stock_quantity: stock, genre_id: "genre-1" });
+
+describe("placeOrder", () => {
+  beforeEach(() => db.reset());
+
+  it("decrements stock, snapshots price and title, and records SALE movements", async () => {
+    const clean = seedBook("Clean Code", 100000, 5);
+    const refactoring = seedBook("Refactoring", 150000, 2);
+
+    // Item dengan book_id sama digabung jadi satu baris order
+    const order = await placeOrder(db.tx, "user-1", [
+      { book_id: clean.id, quantity: 1 },
+      { book_id: refactoring.id, quantity: 2 },
+      { book_id: clean.id, quantity: 2 },
+    ]);
+
+    expect(db.rows("book").map((b) => b.stock_quantity)).toEqual([2, 0]);
+    expect(order.total_price).toBe(3 * 100000 + 2 * 150000);
+    expect(order.expires_at).toBeInstanceOf(Date);
+
+    const receipt = formatReceipt(order);
+    expect(receipt.items).toHaveLength(2);
+    expect(receipt.items.find((i) => i.book_id === clean.id)).toMatchObject({
+      title: "Clean Code",
+      quantity: 3,
+      price_each: 100000,
+      subtotal: 300000,
+    });
+
+    // Harga buku yang berubah setelah checkout tidak mengubah snapshot order
+    clean.price = 1;
+    expect(db.rows("orderItem").find((i) => i.book_id === clean.id)?.unit_price).toBe(100000);
+
+    expect(db.rows("stockMovement")).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ book_id: clean.id, type: "SALE", quantity: -3, balance_after: 2 }),
+        expect.objectContaining({ book_id: refactoring.id, type: "SALE", quantity: -2, balance_after: 0 }),
+      ])
+    );
+    expect(db.rows("orderStatusHistory")).toEqual([
+      expect.objectContaining({ order_id: order.id, to_status: "PENDING", actor_id: "user-1" }),
+    ]);
+  });
+
+  it("rejects the order with 409 and the short items when stock is insufficient", async () => {
+    const clean = seedBook("Clean Code", 100000, 5);
+    const refactoring = seedBook("Refactoring", 150000, 1);
+
+    const error = await placeOrder(db.tx, "user-1", [
+      { book_id: clean.id, quantity: 1 },
+      { book_id: refactoring.id, quantity: 3 },
+    ]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.statusCode).toBe(409);
+    expect(error.data.items).toEqual([
+      { book_id: refactoring.id, title: "Refactoring", requested: 3, available: 1 },
+    ]);
+    // Stok yang kurang tidak pernah minus; sisanya di-rollback oleh $transaction
+    expect(refactoring.stock_quantity).toBe(1);
+    expect(db.rows("order")).toHaveLength(0);
+  });
+
+  it("rejects deleted books with 404", async () => {
+    const book = seedBook("Old Book", 50000, 3);
+    book.deleted_at = new Date();
+
+    await expect(placeOrder(db.tx, "user-1", [{ book_id: book.id, quantity: 1 }])).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(book.stock_quantity).toBe(3);
+  });
+});
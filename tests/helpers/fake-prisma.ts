@@ -0,0 +1,182 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * PrismaClient palsu di memori untuk test perilaku tanpa Postgres. Hanya
+ * mendukung bagian query yang dipakai kode di src/: where dengan kesamaan,
+ * in/gte/gt/lt/lte dan unique gabungan, data increment/decrement, nested
+ * create serta include/select relasi yang terdaftar di `relations`.
+ */
+type Row = Record<string, any>;
+
+interface Relation {
+  model: string;
+  field: string; // kolom di model relasi
+  local?: string; // kolom di model ini, default "id"
+  many: boolean;
+}
+
+const relations: Record<string, Record<string, Relation>> = {
+  book: { genres: { model: "bookGenre", field: "book_id", many: true } },
+  order: {
+    items: { model: "orderItem", field: "order_id", many: true },
+    status_history: { model: "orderStatusHistory", field: "order_id", many: true },
+    coupon_redemption: { model: "couponRedemption", field: "order_id", many: false },
+  },
+  payment: { order: { model: "order", field: "id", local: "order_id", many: false } },
+};
+
+// Nilai default kolom yang di schema punya @default
+const defaults: Record<string, Row> = {
+  order: { status: "PENDING", discount_total: 0 },
+  payment: { status: "PENDING" },
+  book: { reorder_threshold: 5, deleted_at: null },
+  genre: { deleted_at: null },
+};
+
+const isOperator = (cond: unknown): cond is Row =>
+  cond !== null && typeof cond === "object" && !(cond instanceof Date) && !Array.isArray(cond);
+
+const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, cond]) => {
+    if (cond === undefined) return true;
+    const value = row[key] ?? null;
+    if (!isOperator(cond)) return value === cond;
+    // Unique gabungan (mis. provider_provider_ref) → cocokkan semua kolomnya
+    if (!["in", "gte", "gt", "lt", "lte", "not"].some((op) => op in cond)) return matches(row, cond);
+    return (
+      (!("in" in cond) || cond.in.includes(value)) &&
+      (!("gte" in cond) || value >= cond.gte) &&
+      (!("gt" in cond) || value > cond.gt) &&
+      (!("lt" in cond) || value < cond.lt) &&
+      (!("lte" in cond) || value <= cond.lte) &&
+      (!("not" in cond) || value !== cond.not)
+    );
+  });
+
+export const createFakePrisma = () => {
+  const tables = new Map<string, Row[]>();
+  let sequence = 0;
+
+  const table = (model: string) => {
+    if (!tables.has(model)) tables.set(model, []);
+    return tables.get(model)!;
+  };
+
+  const related = (model: string, row: Row, name: string) => {
+    const relation = relations[model]?.[name];
+    if (!relation) return row[name];
+    const rows = table(relation.model).filter((r) => r[relation.field] === row[relation.local ?? "id"]);
+    return relation.many ? rows.map((r) => ({ ...r })) : rows[0] ? { ...rows[0] } : null;
+  };
+
+  // include & select diperlakukan sama: kolom skalar selalu ikut, relasi ditempel
+  const shape = (model: string, row: Row, args: Row = {}) => {
+    const result = { ...row };
+    for (const name of Object.keys({ ...args.include, ...args.select }))
+      if (relations[model]?.[name]) result[name] = related(model, row, name);
+    return result;
+  };
+
+  const applyData = (row: Row, data: Row) => {
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      if (isOperator(value) && "increment" in value) row[key] += value.increment;
+      else if (isOperator(value) && "decrement" in value) row[key] -= value.decrement;
+      else row[key] = value;
+    }
+    row.updated_at = new Date();
+    return row;
+  };
+
+  const insert = (model: string, data: Row) => {
+    const row: Row = { id: `${model}-${++sequence}`, created_at: new Date(), ...defaults[model] };
+    const nested: [Relation, unknown][] = [];
+    for (const [key, value] of Object.entries(data)) {
+      const relation = relations[model]?.[key];
+      if (relation) {
+        if (value && (value as Row).create) nested.push([relation, (value as Row).create]);
+      } else if (value !== undefined) {
+        row[key] = value;
+      }
+    }
+    row.updated_at = row.created_at;
+    table(model).push(row);
+    for (const [relation, create] of nested)
+      for (const child of Array.isArray(create) ? create : [create])
+        insert(relation.model, { ...child, [relation.field]: row.id });
+    return row;
+  };
+
+  const delegate = (model: string) => ({
+    findUnique: async (args: Row) => {
+      const row = table(model).find((r) => matches(r, args.where));
+      return row ? shape(model, row, args) : null;
+    },
+    findUniqueOrThrow: async (args: Row) => {
+      const row = table(model).find((r) => matches(r, args.where));
+      if (!row) throw new Error(`${model} not found`);
+      return shape(model, row, args);
+    },
+    findFirst: async (args: Row = {}) => {
+      const row = table(model).find((r) => matches(r, args.where));
+      return row ? shape(model, row, args) : null;
+    },
+    findMany: async (args: Row = {}) =>
+      table(model)
+        .filter((r) => matches(r, args.where))
+        .map((r) => shape(model, r, args)),
+    count: async (args: Row = {}) => table(model).filter((r) => matches(r, args.where)).length,
+    create: async (args: Row) => shape(model, insert(model, args.data), args),
+    createMany: async (args: Row) => {
+      for (const data of args.data) insert(model, data);
+      return { count: args.data.length };
+    },
+    update: async (args: Row) => {
+      const row = table(model).find((r) => matches(r, args.where));
+      if (!row) throw new Error(`${model} not found`);
+      return shape(model, applyData(row, args.data), args);
+    },
+    updateMany: async (args: Row) => {
+      const rows = table(model).filter((r) => matches(r, args.where));
+      rows.forEach((r) => applyData(r, args.data));
+      return { count: rows.length };
+    },
+    deleteMany: async (args: Row = {}) => {
+      const rows = table(model);
+      const kept = rows.filter((r) => !matches(r, args.where));
+      tables.set(model, kept);
+      return { count: rows.length - kept.length };
+    },
+  });
+
+  const delegates = new Map<string, ReturnType<typeof delegate>>();
+  const client: Row = {
+    // SELECT ... FOR UPDATE cukup jadi no-op: test berjalan berurutan
+    $queryRaw: async () => [],
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(proxy),
+  };
+  const proxy: Row = new Proxy(client, {
+    get: (target, name: string) => {
+      if (name in target) return target[name];
+      if (!delegates.has(name)) delegates.set(name, delegate(name));
+      return delegates.get(name);
+    },
+  });
+
+  return {
+    client: proxy,
+    tx: proxy as unknown as Prisma.TransactionClient,
+    rows: table,
+    seed: (model: string, data: Row) => insert(model, data),
+    reset: () => {
+      tables.clear();
+      sequence = 0;
+    },
+  };
+};
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
+
+// Instance bersama untuk test yang me-mock modul prisma:
+// vi.mock("../src/utils/prisma", async () => ({ prisma: (await import("./helpers/fake-prisma")).fakeDb.client }))
+export const fakeDb = createFakePrisma();
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { OrderStatus } from "@prisma/client";
+import { createFakePrisma } from "./helpers/fake-prisma";
+import { canTransition, transitionOrder } from "../src/utils/order-status";
+import { HttpError } from "../src/utils/errors";
+
+const db = createFakePrisma();
+
+// Order 2 eksemplar yang stoknya sudah dikurangi saat checkout
+const seedOrder = (status: OrderStatus) => {
+  const book = db.seed("book", { title: "Clean Code", price: 100000, stock_quantity: 3 });
+  const order = db.seed("order", {
+    user_id: "user-1",
+    subtotal_price: 200000,
+    total_price: 200000,
+    status,
+    items: { create: [{ book_id: book.id, title: book.title, unit_price: 100000, quantity: 2, discount: 0 }] },
+  });
+  return { book, order };
+};
+
+describe("canTransition", () => {
+  it("follows the order lifecycle", () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.PAID)).toBe(true);
+    expect(canTransition(OrderStatus.PAID, OrderStatus.SHIPPED)).toBe(true);
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.COMPLETED)).toBe(true);
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.SHIPPED)).toBe(false);
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.CANCELLED)).toBe(false);
+    expect(canTransition(OrderStatus.CANCELLED, OrderStatus.PAID)).toBe(false);
+  });
+});
+
+describe("transitionOrder", () => {
+  beforeEach(() => db.reset());
+
+  it("records the history row for a forward transition without touching stock", async () => {
+    const { book, order } = seedOrder(OrderStatus.PENDING);
+
+    const updated = await transitionOrder(db.tx, order.id, OrderStatus.PAID, null, "Paid");
+
+    expect(updated.status).toBe(OrderStatus.PAID);
+    expect(order.status).toBe(OrderStatus.PAID);
+    expect(book.stock_quantity).toBe(3);
+    expect(db.rows("orderStatusHistory")).toEqual([
+      expect.objectContaining({ order_id: order.id, from_status: "PENDING", to_status: "PAID", note: "Paid" }),
+    ]);
+  });
+
+  it("restores stock, releases the coupon and flags the payment for refund when a paid order is cancelled", async () => {
+    const { book, order } = seedOrder(OrderStatus.PAID);
+    const coupon = db.seed("coupon", { code: "HEMAT", used_count: 1 });
+    const redemption = db.seed("couponRedemption", {
+      order_id: order.id,
+      coupon_id: coupon.id,
+      user_id: "user-1",
+      released_at: null,
+    });
+    const payment = db.seed("payment", { order_id: order.id, status: "SUCCEEDED", amount: 200000 });
+
+    await transitionOrder(db.tx, order.id, OrderStatus.CANCELLED, "admin-1", "Out of print");
+
+    expect(book.stock_quantity).toBe(5);
+    expect(db.rows("stockMovement")).toEqual([
+      expect.objectContaining({
+        book_id: book.id,
+        type: "CANCELLATION",
+        quantity: 2,
+        balance_after: 5,
+        order_id: order.id,
+        actor_id: "admin-1",
+      }),
+    ]);
+    expect(redemption.released_at).toBeInstanceOf(Date);
+    expect(coupon.used_count).toBe(0);
+    expect(payment.status).toBe("REFUND_PENDING");
+  });
+
+  it("leaves payments alone when an unpaid order is cancelled", async () => {
+    const { book, order } = seedOrder(OrderStatus.PENDING);
+    const payment = db.seed("payment", { order_id: order.id, status: "FAILED", amount: 200000 });
+
+    await transitionOrder(db.tx, order.id, OrderStatus.CANCELLED, "user-1");
+
+    expect(book.stock_quantity).toBe(5);
+    expect(payment.status).toBe("FAILED");
+  });
+
+  it("rejects a transition outside the state machine with 409 and the allowed targets", async () => {
+    const { book, order } = seedOrder(OrderStatus.SHIPPED);
+
+    const error = await transitionOrder(db.tx, order.id, OrderStatus.CANCELLED, "user-1").catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.statusCode).toBe(409);
+    expect(error.data).toEqual({ status: "SHIPPED", allowed: ["COMPLETED"] });
+    expect(order.status).toBe(OrderStatus.SHIPPED);
+    expect(book.stock_quantity).toBe(3);
+    expect(db.rows("orderStatusHistory")).toHaveLength(0);
+  });
+
+  it("reports a retryable conflict when the status changed concurrently", async () => {
+    const { book, order } = seedOrder(OrderStatus.PENDING);
+    // Request lain sudah memindahkan status di antara baca & update bersyarat
+    vi.spyOn(db.client.order, "updateMany").mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      transitionOrder(db.tx, order.id, OrderStatus.CANCELLED, "user-1")
+    ).rejects.toMatchObject({ statusCode: 409, data: { retryable: true } });
+    expect(book.stock_quantity).toBe(3);
+  });
+
+  it("returns 404 for an unknown order", async () => {
+    await expect(transitionOrder(db.tx, "missing", OrderStatus.PAID, null)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
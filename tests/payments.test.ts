@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb as db } from "./helpers/fake-prisma";
+import { FAKE_SIGNATURE_HEADER, FakePaymentProvider } from "../src/utils/payment-provider";
+import { expireUnpaidOrders, processPaymentEvent } from "../src/utils/payments";
+
+vi.mock("../src/utils/prisma", async () => ({
+  prisma: (await import("./helpers/fake-prisma")).fakeDb.client,
+}));
+vi.mock("../src/utils/restock-notifier", () => ({ queueRestockNotifications: vi.fn() }));
+
+const provider = new FakePaymentProvider("webhook-secret");
+
+const deliver = (event: Parameters<FakePaymentProvider["buildWebhook"]>[0]) => {
+  const webhook = provider.buildWebhook(event);
+  return provider.parseWebhook(Buffer.from(webhook.body), webhook.headers);
+};
+
+describe("FakePaymentProvider webhook signature", () => {
+  const body = JSON.stringify({ id: "evt_1", type: "payment.succeeded", provider_ref: "pi_1", amount: 5000 });
+
+  it("accepts a correctly signed payload", () => {
+    const event = provider.parseWebhook(Buffer.from(body), { [FAKE_SIGNATURE_HEADER]: provider.sign(body) });
+
+    expect(event).toMatchObject({ id: "evt_1", type: "payment.succeeded", provider_ref: "pi_1", amount: 5000 });
+  });
+
+  it("rejects a payload changed after signing", () => {
+    const headers = { [FAKE_SIGNATURE_HEADER]: provider.sign(body) };
+    const tampered = Buffer.from(body.replace("5000", "1"));
+
+    expect(() => provider.parseWebhook(tampered, headers)).toThrow("Invalid webhook signature");
+  });
+
+  it("rejects a signature made with another secret", () => {
+    const headers = { [FAKE_SIGNATURE_HEADER]: new FakePaymentProvider("other-secret").sign(body) };
+
+    expect(() => provider.parseWebhook(Buffer.from(body), headers)).toThrow("Invalid webhook signature");
+  });
+
+  it("rejects replays outside the timestamp tolerance", () => {
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+    const headers = { [FAKE_SIGNATURE_HEADER]: provider.sign(body, stale) };
+
+    expect(() => provider.parseWebhook(Buffer.from(body), headers)).toThrow("Webhook timestamp outside tolerance");
+  });
+
+  it("rejects missing or malformed signature headers with 400", () => {
+    expect(() => provider.parseWebhook(Buffer.from(body), {})).toThrow("Missing webhook signature");
+    expect(() =>
+      provider.parseWebhook(Buffer.from(body), { [FAKE_SIGNATURE_HEADER]: "v1=abc" })
+    ).toThrow(expect.objectContaining({ statusCode: 400, message: "Malformed webhook signature" }));
+  });
+});
+
+describe("processPaymentEvent", () => {
+  beforeEach(() => db.reset());
+
+  const seedPayment = (orderStatus = "PENDING") => {
+    const book = db.seed("book", { title: "Clean Code", price: 5000, stock_quantity: 1 });
+    const order = db.seed("order", {
+      user_id: "user-1",
+      subtotal_price: 5000,
+      total_price: 5000,
+      status: orderStatus,
+      items: { create: [{ book_id: book.id, title: book.title, unit_price: 5000, quantity: 1, discount: 0 }] },
+    });
+    const payment = db.seed("payment", { order_id: order.id, provider: "fake", provider_ref: "pi_1", amount: 5000 });
+    return { book, order, payment };
+  };
+
+  it("marks the order PAID and audits the transition once per event", async () => {
+    const { order, payment } = seedPayment();
+    const event = deliver({ type: "payment.succeeded", provider_ref: "pi_1", amount: 5000 });
+
+    const result = await processPaymentEvent("fake", event);
+    const replay = await processPaymentEvent("fake", event);
+
+    expect(result).toMatchObject({ duplicate: false, payment_status: "SUCCEEDED", order_status: "PAID" });
+    expect(replay).toEqual({ duplicate: true });
+    expect(payment.status).toBe("SUCCEEDED");
+    expect(order.status).toBe("PAID");
+    expect(db.rows("orderStatusHistory")).toHaveLength(1);
+    expect(db.rows("auditLog")).toEqual([
+      expect.objectContaining({
+        action: "order.status_update",
+        entity_id: order.id,
+        actor_id: null,
+        diff: { status: { from: "PENDING", to: "PAID" } },
+        metadata: expect.objectContaining({ source: "payment_webhook", event_id: event.id }),
+      }),
+    ]);
+  });
+
+  it("keeps the order PENDING and its stock reserved when the payment fails", async () => {
+    const { book, order, payment } = seedPayment();
+
+    const result = await processPaymentEvent(
+      "fake",
+      deliver({ type: "payment.failed", provider_ref: "pi_1", amount: 5000, failure_reason: "Card declined" })
+    );
+
+    expect(result).toMatchObject({ payment_status: "FAILED", order_status: "PENDING" });
+    expect(payment).toMatchObject({ status: "FAILED", failure_reason: "Card declined" });
+    expect(order.status).toBe("PENDING");
+    expect(book.stock_quantity).toBe(1);
+  });
+
+  it("flags money received for a cancelled order for refund", async () => {
+    const { order, payment } = seedPayment("CANCELLED");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await processPaymentEvent(
+      "fake",
+      deliver({ type: "payment.succeeded", provider_ref: "pi_1", amount: 5000 })
+    );
+
+    expect(result).toMatchObject({ payment_status: "REFUND_PENDING", order_status: "CANCELLED" });
+    expect(payment.status).toBe("REFUND_PENDING");
+    expect(order.status).toBe("CANCELLED");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("refund required"));
+    warn.mockRestore();
+  });
+
+  it("rejects an amount that does not match the payment", async () => {
+    const { order } = seedPayment();
+
+    await expect(
+      processPaymentEvent("fake", deliver({ type: "payment.succeeded", provider_ref: "pi_1", amount: 1 }))
+    ).rejects.toMatchObject({ statusCode: 400, data: { expected: 5000, received: 1 } });
+    expect(order.status).toBe("PENDING");
+  });
+});
+
+describe("expireUnpaidOrders", () => {
+  beforeEach(() => db.reset());
+
+  it("cancels overdue unpaid orders, expires their payments and restores stock", async () => {
+    const now = new Date();
+    const book = db.seed("book", { title: "Clean Code", price: 5000, stock_quantity: 0 });
+    const overdue = db.seed("order", {
+      user_id: "user-1",
+      subtotal_price: 5000,
+      total_price: 5000,
+      expires_at: new Date(now.getTime() - 1000),
+      items: { create: [{ book_id: book.id, title: book.title, unit_price: 5000, quantity: 1, discount: 0 }] },
+    });
+    const fresh = db.seed("order", {
+      user_id: "user-2",
+      subtotal_price: 5000,
+      total_price: 5000,
+      expires_at: new Date(now.getTime() + 60000),
+    });
+    const payment = db.seed("payment", { order_id: overdue.id, provider: "fake", provider_ref: "pi_1", amount: 5000 });
+
+    const expired = await expireUnpaidOrders(now);
+
+    expect(expired).toEqual([overdue.id]);
+    expect(overdue.status).toBe("CANCELLED");
+    expect(fresh.status).toBe("PENDING");
+    expect(payment.status).toBe("EXPIRED");
+    expect(book.stock_quantity).toBe(1);
+    expect(db.rows("auditLog")).toEqual([
+      expect.objectContaining({
+        entity_id: overdue.id,
+        actor_id: null,
+        metadata: expect.objectContaining({ source: "payment_expiry" }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StockMovementType } from "@prisma/client";
+import { createFakePrisma } from "./helpers/fake-prisma";
+import { adjustStock } from "../src/utils/stock-ledger";
+
+const db = createFakePrisma();
+
+describe("adjustStock", () => {
+  beforeEach(() => db.reset());
+
+  it("applies the delta and records the resulting balance", async () => {
+    const book = db.seed("book", { title: "Clean Code", price: 100000, stock_quantity: 4 });
+
+    const restock = await adjustStock(db.tx, {
+      bookId: book.id,
+      type: StockMovementType.RESTOCK,
+      quantity: 6,
+      actorId: "admin-1",
+    });
+    const correction = await adjustStock(db.tx, {
+      bookId: book.id,
+      type: StockMovementType.CORRECTION,
+      quantity: -3,
+      reason: "Water damage",
+    });
+
+    expect(book.stock_quantity).toBe(7);
+    expect(restock).toMatchObject({ type: "RESTOCK", quantity: 6, balance_after: 10, actor_id: "admin-1" });
+    expect(correction).toMatchObject({ type: "CORRECTION", quantity: -3, balance_after: 7, reason: "Water damage" });
+  });
+
+  it("returns null and writes nothing when a decrement would go below zero", async () => {
+    const book = db.seed("book", { title: "Clean Code", price: 100000, stock_quantity: 2 });
+
+    const movement = await adjustStock(db.tx, {
+      bookId: book.id,
+      type: StockMovementType.CORRECTION,
+      quantity: -3,
+    });
+
+    expect(movement).toBeNull();
+    expect(book.stock_quantity).toBe(2);
+    expect(db.rows("stockMovement")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // config.ts menolak start tanpa secret; test tidak butuh .env sungguhan
+    env: {
+      JWT_SECRET: "test-secret-0123456789abcdef0123456789abcdef",
+      PAYMENT_WEBHOOK_SECRET: "test-webhook-secret",
+    },
+  },
+});